@@ -1,33 +1,58 @@
 import { QueryClientProvider } from "@tanstack/react-query";
-import { queryClient } from "./lib/queryClient";
+import { AUTH_USER_QUERY_KEY, queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { Route, Routes } from "react-router-dom";
+import { Navigate, Route, Routes, useLocation } from "react-router-dom";
 import { ThemeProvider } from "@/lib/ThemeProvider";
 import Dashboard from "@/pages/dashboard";
 import Login from "@/pages/login";
 import Accounts from "@/pages/accounts";
 import Channels from "@/pages/channels";
 import Predictions from "@/pages/predictions";
+import Drops from "@/pages/drops";
 import Logs from "@/pages/logs";
 import Settings from "@/pages/settings";
 import NotFound from "@/pages/not-found";
-import { useState, useEffect } from "react";
-import { useNavigate, useLocation } from "react-router-dom";
-import { apiRequest } from "./lib/queryClient";
+import { AuthSession, AuthUser, useAuth } from "@/hooks/use-auth";
 
-function App() {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(true);
-  const navigate = useNavigate();
+// Renders its page only with a logged-in session, otherwise sends the user
+// to /login and remembers where they were headed
+function ProtectedRoute({ children }: { children: JSX.Element }) {
+  const { user, isLoading } = useAuth();
   const location = useLocation();
 
-  // Automatically redirect to dashboard if on login page
-  useEffect(() => {
-    if (location.pathname === "/login") {
-      navigate("/");
-    }
-  }, [navigate, location.pathname]);
+  if (isLoading) {
+    return <div className="min-h-screen bg-background" />;
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  return children;
+}
+
+function LoginRoute() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return <div className="min-h-screen bg-background" />;
+  }
 
+  if (user) {
+    return <Navigate to="/" replace />;
+  }
+
+  return (
+    <Login
+      onLoginSuccess={(loggedInUser: AuthUser) =>
+        queryClient.setQueryData<AuthSession>(AUTH_USER_QUERY_KEY, { user: loggedInUser })
+      }
+    />
+  );
+}
+
+function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider defaultTheme="dark">
@@ -35,13 +60,14 @@ function App() {
           <Toaster />
           <div className="dark">
             <Routes>
-              <Route path="/login" element={<Login onLoginSuccess={() => setIsAuthenticated(true)} />} />
-              <Route path="/" element={<Dashboard />} />
-              <Route path="/accounts" element={<Accounts />} />
-              <Route path="/channels" element={<Channels />} />
-              <Route path="/predictions" element={<Predictions />} />
-              <Route path="/logs" element={<Logs />} />
-              <Route path="/settings" element={<Settings />} />
+              <Route path="/login" element={<LoginRoute />} />
+              <Route path="/" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
+              <Route path="/accounts" element={<ProtectedRoute><Accounts /></ProtectedRoute>} />
+              <Route path="/channels" element={<ProtectedRoute><Channels /></ProtectedRoute>} />
+              <Route path="/predictions" element={<ProtectedRoute><Predictions /></ProtectedRoute>} />
+              <Route path="/drops" element={<ProtectedRoute><Drops /></ProtectedRoute>} />
+              <Route path="/logs" element={<ProtectedRoute><Logs /></ProtectedRoute>} />
+              <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </div>
@@ -3,12 +3,16 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
-import { Pencil, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Clock, Pencil, Trash2 } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/api";
 import { formatTimeDuration } from "@/lib/time-utils";
-import { Farm } from "@shared/schema";
+import { Farm, WatchState } from "@shared/schema";
+import { formatInTimeZone, nextWindowStart } from "@shared/schedule";
 import { useToast } from "@/hooks/use-toast";
+import FarmScheduleModal from "@/components/modals/farm-schedule-modal";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -21,13 +25,14 @@ import {
 } from "@/components/ui/alert-dialog";
 
 interface FarmCardProps {
-  farm: Farm & { accountName: string };
+  farm: Farm & { accountName: string, watchState?: WatchState | null };
   onUpdate: () => void;
   onDelete: () => void;
 }
 
 export default function FarmCard({ farm, onUpdate, onDelete }: FarmCardProps) {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
   const { toast } = useToast();
   
   const updateFarmMutation = useMutation({
@@ -80,6 +85,13 @@ export default function FarmCard({ farm, onUpdate, onDelete }: FarmCardProps) {
     updateFarmMutation.mutate({ features: updatedFeatures });
   };
   
+  const handlePriorityChange = (value: string) => {
+    const priority = parseInt(value);
+    if (!isNaN(priority) && priority !== farm.priority) {
+      updateFarmMutation.mutate({ priority });
+    }
+  };
+
   const getStatusIndicator = () => {
     switch (farm.status) {
       case "active":
@@ -88,11 +100,20 @@ export default function FarmCard({ farm, onUpdate, onDelete }: FarmCardProps) {
         return <span className="w-3 h-3 bg-warning rounded-full mr-2"></span>;
       case "error":
         return <span className="w-3 h-3 bg-destructive rounded-full mr-2"></span>;
+      case "scheduled":
+        return <Clock className="w-3 h-3 text-muted-foreground mr-2" />;
       default:
         return <span className="w-3 h-3 bg-border rounded-full mr-2"></span>;
     }
   };
   
+  // Game farms are named after their game; the channel changes as they switch streams
+  const channel = farm.channelDisplayName || farm.channelName;
+  const title = farm.targetType === "game" ? farm.gameName ?? "" : channel;
+  // Shown in the schedule's timezone, as in the activity log
+  const nextWindow = farm.status === "scheduled" && farm.schedule ? nextWindowStart(farm.schedule) : null;
+  const nextWindowLabel = nextWindow && farm.schedule ? formatInTimeZone(nextWindow, farm.schedule.timezone) : null;
+
   return (
     <>
       <Card className="bg-card border-border rounded-lg overflow-hidden">
@@ -103,7 +124,7 @@ export default function FarmCard({ farm, onUpdate, onDelete }: FarmCardProps) {
                 <img src={farm.profileImage} alt={farm.channelName} className="w-10 h-10 rounded-full" />
               ) : (
                 <div className="w-10 h-10 rounded-full bg-secondary flex items-center justify-center">
-                  {farm.channelName.charAt(0).toUpperCase()}
+                  {title.charAt(0).toUpperCase()}
                 </div>
               )}
               <div className={`absolute -bottom-1 -right-1 w-4 h-4 ${
@@ -113,11 +134,22 @@ export default function FarmCard({ farm, onUpdate, onDelete }: FarmCardProps) {
               } rounded-full border-2 border-card`}></div>
             </div>
             <div className="ml-3">
-              <h3 className="font-medium">{farm.channelName}</h3>
-              <p className="text-xs text-muted-foreground">via {farm.accountName}</p>
+              <h3 className="font-medium">{title}</h3>
+              <p className="text-xs text-muted-foreground">
+                {farm.targetType === "game" && channel && `on ${channel} `}via {farm.accountName}
+              </p>
             </div>
           </div>
           <div className="flex items-center space-x-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              className={`h-8 w-8 ${farm.schedule ? "text-primary" : "text-muted-foreground"}`}
+              onClick={() => setIsScheduleOpen(true)}
+              title={farm.schedule ? "Edit schedule" : "Add schedule"}
+            >
+              <Clock className="h-4 w-4" />
+            </Button>
             <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground">
               <Pencil className="h-4 w-4" />
             </Button>
@@ -137,12 +169,35 @@ export default function FarmCard({ farm, onUpdate, onDelete }: FarmCardProps) {
             <div className="flex items-center">
               {getStatusIndicator()}
               <span className="text-sm font-medium capitalize">{farm.status}</span>
+              {farm.watchState && (
+                <Badge
+                  variant={farm.watchState === "watching" ? "default" : "secondary"}
+                  className="ml-2 capitalize"
+                  title={farm.watchState === "queued"
+                    ? "Twitch credits watch time on two channels per account; this one waits for a slot"
+                    : undefined}
+                >
+                  {farm.watchState}
+                </Badge>
+              )}
             </div>
             <span className="text-xs text-muted-foreground">
               Uptime: {formatTimeDuration(farm.uptime)}
             </span>
           </div>
           
+          {farm.status === "offline" && (
+            <div className="bg-secondary text-muted-foreground text-sm p-2 rounded mb-3">
+              Stream is offline; watch time and claims resume when it goes live
+            </div>
+          )}
+
+          {farm.status === "scheduled" && (
+            <div className="bg-secondary text-muted-foreground text-sm p-2 rounded mb-3">
+              Scheduled{nextWindowLabel && ` - next window at ${nextWindowLabel}`}
+            </div>
+          )}
+
           {farm.status === "warning" && (
             <div className="bg-warning bg-opacity-10 text-warning text-sm p-2 rounded mb-3">
               <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="inline mr-1">
@@ -150,7 +205,7 @@ export default function FarmCard({ farm, onUpdate, onDelete }: FarmCardProps) {
                 <path d="M12 9v4"></path>
                 <path d="M12 17h.01"></path>
               </svg>
-              Stream is offline but farm is still running
+              Last check failed; retrying
             </div>
           )}
           
@@ -167,6 +222,18 @@ export default function FarmCard({ farm, onUpdate, onDelete }: FarmCardProps) {
           
           <div className="flex items-center justify-between mb-3">
             <p className="text-sm font-medium">Features</p>
+            <Label className="flex items-center text-xs text-muted-foreground">
+              Priority
+              <Input
+                key={farm.priority}
+                type="number"
+                min={0}
+                defaultValue={farm.priority}
+                onBlur={(e) => handlePriorityChange(e.target.value)}
+                className="ml-2 h-7 w-16 text-sm"
+                title="Lower numbers are watched first"
+              />
+            </Label>
           </div>
           
           <div className="grid grid-cols-2 gap-y-3">
@@ -217,12 +284,18 @@ export default function FarmCard({ farm, onUpdate, onDelete }: FarmCardProps) {
         </CardContent>
       </Card>
       
+      <FarmScheduleModal
+        farm={isScheduleOpen ? farm : null}
+        onClose={() => setIsScheduleOpen(false)}
+        onSuccess={onUpdate}
+      />
+
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent className="bg-card border-border">
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will stop farming on channel "{farm.channelName}" and remove it from your dashboard.
+              This will stop farming {farm.targetType === "game" ? `drops for "${title}"` : `on channel "${title}"`} and remove it from your dashboard.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
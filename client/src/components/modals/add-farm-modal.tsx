@@ -4,6 +4,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/api";
+import { loadFarmDefaults } from "@/lib/farm-defaults";
 import { useToast } from "@/hooks/use-toast";
 import {
   Dialog,
@@ -32,14 +33,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Account } from "@shared/schema";
+import { PublicAccount } from "@shared/schema";
 
 const formSchema = z.object({
   accountId: z.number({
     required_error: "Please select an account",
     invalid_type_error: "Please select a valid account",
   }),
-  channelName: z.string().min(2, "Channel name must be at least 2 characters"),
+  targetType: z.enum(["channel", "game"]),
+  channelName: z.string(),
+  gameName: z.string(),
   features: z.object({
     claimPoints: z.boolean().default(true),
     watchTime: z.boolean().default(true),
@@ -53,7 +56,20 @@ const formSchema = z.object({
       .min(100, "Minimum bet must be at least 100 points")
       .default(1000),
     favorableOddsOnly: z.boolean().default(false),
+    secondsBeforeLock: z
+      .number()
+      .int()
+      .min(1, "Bet at least 1 second before the lock")
+      .max(600, "Bet at most 600 seconds before the lock")
+      .default(10),
   }),
+}).superRefine((values, ctx) => {
+  if (values.targetType === "channel" && values.channelName.trim().length < 2) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["channelName"], message: "Channel name must be at least 2 characters" });
+  }
+  if (values.targetType === "game" && !values.gameName.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["gameName"], message: "Enter the game to farm drops for" });
+  }
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -73,7 +89,7 @@ export default function AddFarmModal({
   const [showPredictionSettings, setShowPredictionSettings] = useState(true);
   const { toast } = useToast();
 
-  const { data: accounts } = useQuery<Account[]>({
+  const { data: accounts } = useQuery<PublicAccount[]>({
     queryKey: ['/api/accounts'],
     enabled: isOpen, // Only fetch when modal is open
   });
@@ -81,28 +97,29 @@ export default function AddFarmModal({
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
+      targetType: "channel",
       channelName: "",
-      features: {
-        claimPoints: true,
-        watchTime: true,
-        predictions: true,
-        claimDrops: false,
-      },
-      predictionSettings: {
-        strategy: "random",
-        maxPoints: 1000,
-        favorableOddsOnly: false,
-      },
+      gameName: "",
+      // Saved on the Settings page
+      ...loadFarmDefaults(),
     },
   });
 
   // Watch for changes to the predictions feature toggle
   const watchPrediction = form.watch("features.predictions");
+  const targetType = form.watch("targetType");
   
   useEffect(() => {
     setShowPredictionSettings(watchPrediction);
   }, [watchPrediction]);
 
+  // Game farms always claim drops; the server enforces it too
+  useEffect(() => {
+    if (targetType === "game") {
+      form.setValue("features.claimDrops", true);
+    }
+  }, [targetType, form]);
+
   // Set account ID when accounts are loaded (if none is selected yet)
   useEffect(() => {
     if (accounts && accounts.length > 0 && !form.getValues("accountId")) {
@@ -111,8 +128,10 @@ export default function AddFarmModal({
   }, [accounts, form]);
 
   const createFarmMutation = useMutation({
-    mutationFn: async (data: FormValues) => {
-      return apiRequest("POST", "/api/farms", data);
+    mutationFn: async ({ gameName, ...data }: FormValues) => {
+      return apiRequest("POST", "/api/farms", data.targetType === "game"
+        ? { ...data, channelName: "", gameName: gameName.trim() }
+        : data);
     },
     onSuccess: () => {
       toast({
@@ -191,22 +210,67 @@ export default function AddFarmModal({
 
             <FormField
               control={form.control}
-              name="channelName"
+              name="targetType"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel className="text-[#EFEFF1]">Channel Name</FormLabel>
-                  <FormControl>
-                    <Input 
-                      placeholder="e.g. pokimane" 
-                      className="bg-[#26262C] border-[#323238] text-[#EFEFF1] focus:border-[#9146FF] placeholder:text-[#7D7D8E]" 
-                      {...field} 
-                    />
-                  </FormControl>
+                  <FormLabel className="text-[#EFEFF1]">Farm</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="bg-[#26262C] border-[#323238] text-[#EFEFF1] focus:border-[#9146FF] focus:ring-[#9146FF]">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="bg-[#18181B] border-[#323238] text-[#EFEFF1]">
+                      <SelectItem value="channel" className="hover:bg-[#26262C] hover:text-white">A specific channel</SelectItem>
+                      <SelectItem value="game" className="hover:bg-[#26262C] hover:text-white">Any drops-enabled stream of a game</SelectItem>
+                    </SelectContent>
+                  </Select>
                   <FormMessage className="text-red-400" />
                 </FormItem>
               )}
             />
 
+            {targetType === "game" ? (
+              <FormField
+                control={form.control}
+                name="gameName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-[#EFEFF1]">Game</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g. Rust"
+                        className="bg-[#26262C] border-[#323238] text-[#EFEFF1] focus:border-[#9146FF] placeholder:text-[#7D7D8E]"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription className="text-[#ADADB8]">
+                      Watches a live stream with drops enabled, switching streams as needed, and stops once the game's drops are claimed.
+                    </FormDescription>
+                    <FormMessage className="text-red-400" />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <FormField
+                control={form.control}
+                name="channelName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-[#EFEFF1]">Channel Name</FormLabel>
+                    <FormControl>
+                      <Input 
+                        placeholder="e.g. pokimane" 
+                        className="bg-[#26262C] border-[#323238] text-[#EFEFF1] focus:border-[#9146FF] placeholder:text-[#7D7D8E]" 
+                        {...field} 
+                      />
+                    </FormControl>
+                    <FormMessage className="text-red-400" />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="space-y-3">
               <FormLabel className="text-[#EFEFF1]">Features to Enable</FormLabel>
               
@@ -276,6 +340,7 @@ export default function AddFarmModal({
                       <Checkbox
                         checked={field.value}
                         onCheckedChange={field.onChange}
+                        disabled={targetType === "game"}
                         className="border-[#323238] data-[state=checked]:bg-[#9146FF] data-[state=checked]:border-[#9146FF]"
                       />
                     </FormControl>
@@ -345,6 +410,34 @@ export default function AddFarmModal({
                   )}
                 />
                 
+                <FormField
+                  control={form.control}
+                  name="predictionSettings.secondsBeforeLock"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs text-[#EFEFF1]">Bet Seconds Before Lock</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={600}
+                          placeholder="e.g. 10"
+                          className="bg-[#18181B] border-[#323238] text-[#EFEFF1] focus:border-[#9146FF] placeholder:text-[#7D7D8E]"
+                          {...field}
+                          onChange={(e) => {
+                            field.onChange(
+                              e.target.value === ""
+                                ? 0
+                                : parseInt(e.target.value)
+                            );
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage className="text-red-400" />
+                    </FormItem>
+                  )}
+                />
+                
                 <FormField
                   control={form.control}
                   name="predictionSettings.favorableOddsOnly"
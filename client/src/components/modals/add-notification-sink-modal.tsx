@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { logStatuses } from "@shared/schema";
+
+const formSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  webhookUrl: z.string().url("Enter a valid webhook URL"),
+  statuses: z.array(z.enum(logStatuses)).min(1, "Select at least one status"),
+  events: z.string(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface AddNotificationSinkModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export default function AddNotificationSinkModal({
+  isOpen,
+  onClose,
+  onSuccess,
+}: AddNotificationSinkModalProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      webhookUrl: "",
+      statuses: ["success", "warning", "error"],
+      events: "",
+    },
+  });
+
+  const addSinkMutation = useMutation({
+    mutationFn: async (data: FormValues) => {
+      return apiRequest("POST", "/api/notifications/sinks", {
+        name: data.name,
+        webhookUrl: data.webhookUrl,
+        statuses: data.statuses,
+        events: data.events
+          .split(",")
+          .map((keyword) => keyword.trim())
+          .filter(Boolean),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Notification sink added",
+        description: "Matching activity will be sent to the webhook.",
+      });
+      form.reset();
+      onSuccess();
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to add notification sink",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      setIsLoading(false);
+    },
+  });
+
+  const onSubmit = (data: FormValues) => {
+    setIsLoading(true);
+    addSinkMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="bg-[#1F1F23] border-[#323238] max-w-md p-4 md:p-6 rounded-xl shadow-xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold bg-gradient-to-r from-[#9146FF] to-[#772CE8] bg-clip-text text-transparent">
+            Add Notification Sink
+          </DialogTitle>
+          <DialogDescription className="text-[#ADADB8]">
+            Forward activity logs to a Discord webhook.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 mt-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-[#EFEFF1]">Name</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g. Errors channel"
+                      className="bg-[#26262C] border-[#323238] text-[#EFEFF1] focus:border-[#9146FF] placeholder:text-[#7D7D8E]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="webhookUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-[#EFEFF1]">Discord Webhook URL</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="https://discord.com/api/webhooks/..."
+                      className="bg-[#26262C] border-[#323238] text-[#EFEFF1] focus:border-[#9146FF] placeholder:text-[#7D7D8E]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="statuses"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-[#EFEFF1]">Statuses</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {logStatuses.map((status) => (
+                      <label key={status} className="flex items-center gap-2 text-sm text-[#EFEFF1] capitalize">
+                        <Checkbox
+                          checked={field.value.includes(status)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked
+                                ? [...field.value, status]
+                                : field.value.filter((value) => value !== status)
+                            )
+                          }
+                        />
+                        {status}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="events"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-[#EFEFF1]">Event Keywords</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g. prediction, drop"
+                      className="bg-[#26262C] border-[#323238] text-[#EFEFF1] focus:border-[#9146FF] placeholder:text-[#7D7D8E]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription className="text-[#ADADB8]">
+                    Comma-separated. Leave empty to forward every event.
+                  </FormDescription>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="mt-6 flex sm:justify-end justify-between gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={isLoading}
+                className="bg-transparent text-[#EFEFF1] border-[#323238] hover:bg-[#26262C] hover:text-white flex-1 sm:flex-none"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="bg-[#9146FF] hover:bg-[#772CE8] text-white flex-1 sm:flex-none"
+              >
+                {isLoading ? "Adding..." : "Add Sink"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Plus, X } from "lucide-react";
+import { Farm, farmScheduleSchema, type FarmSchedule, type ScheduleWindow } from "@shared/schema";
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const newWindow = (): ScheduleWindow => ({ days: [1, 2, 3, 4, 5], start: "18:00", end: "23:00" });
+
+interface FarmScheduleModalProps {
+  farm: Farm | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export default function FarmScheduleModal({
+  farm,
+  onClose,
+  onSuccess,
+}: FarmScheduleModalProps) {
+  const [timezone, setTimezone] = useState("");
+  const [windows, setWindows] = useState<ScheduleWindow[]>([]);
+  const { toast } = useToast();
+
+  // Start from the farm's schedule, or one window in the browser's timezone.
+  // Keyed on the id so background refetches don't discard edits
+  useEffect(() => {
+    setTimezone(farm?.schedule?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone);
+    setWindows(farm?.schedule?.windows ?? [newWindow()]);
+  }, [farm?.id]);
+
+  const updateWindow = (index: number, change: Partial<ScheduleWindow>) => {
+    setWindows(windows.map((window, i) => i === index ? { ...window, ...change } : window));
+  };
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (schedule: FarmSchedule | null) => {
+      return apiRequest("PATCH", `/api/farms/${farm?.id}`, { schedule });
+    },
+    onSuccess: (_res, schedule) => {
+      toast({
+        title: schedule ? "Schedule saved" : "Schedule removed",
+        description: schedule
+          ? "The farm only runs inside its schedule windows."
+          : "The farm runs around the clock again.",
+      });
+      onSuccess();
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to save schedule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    const schedule = farmScheduleSchema.safeParse({
+      timezone: timezone.trim(),
+      windows: windows.map(window => ({ ...window, days: [...window.days].sort((a, b) => a - b) })),
+    });
+    if (!schedule.success) {
+      toast({
+        title: "Invalid schedule",
+        description: schedule.error.issues[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+    scheduleMutation.mutate(schedule.data);
+  };
+
+  return (
+    <Dialog open={!!farm} onOpenChange={onClose}>
+      <DialogContent className="bg-[#1F1F23] border-[#323238] max-w-md p-4 md:p-6 rounded-xl shadow-xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold bg-gradient-to-r from-[#9146FF] to-[#772CE8] bg-clip-text text-transparent">
+            Farming Schedule
+          </DialogTitle>
+          <DialogDescription className="text-[#ADADB8]">
+            The farm only runs inside these weekly windows. A window ending before it starts runs past midnight.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-4">
+          <div className="space-y-1">
+            <Label htmlFor="schedule-timezone" className="text-[#EFEFF1]">Timezone</Label>
+            <Input
+              id="schedule-timezone"
+              placeholder="e.g. Europe/Berlin"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              className="bg-[#26262C] border-[#323238] text-[#EFEFF1] focus:border-[#9146FF] placeholder:text-[#7D7D8E]"
+            />
+          </div>
+
+          {windows.map((window, index) => (
+            <div key={index} className="border border-[#323238] rounded-md bg-[#26262C] p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <ToggleGroup
+                  type="multiple"
+                  size="sm"
+                  value={window.days.map(String)}
+                  onValueChange={(days) => updateWindow(index, { days: days.map(Number) })}
+                  className="flex-wrap justify-start"
+                >
+                  {DAYS.map((day, dayIndex) => (
+                    <ToggleGroupItem
+                      key={day}
+                      value={String(dayIndex)}
+                      className="text-xs text-[#ADADB8] data-[state=on]:bg-[#9146FF] data-[state=on]:text-white"
+                    >
+                      {day}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setWindows(windows.filter((_, i) => i !== index))}
+                  className="h-8 w-8 text-[#ADADB8] hover:text-white"
+                  title="Remove window"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex items-center gap-2 text-sm text-[#ADADB8]">
+                <Input
+                  type="time"
+                  value={window.start}
+                  onChange={(e) => updateWindow(index, { start: e.target.value })}
+                  className="bg-[#1F1F23] border-[#323238] text-[#EFEFF1]"
+                />
+                to
+                <Input
+                  type="time"
+                  value={window.end}
+                  onChange={(e) => updateWindow(index, { end: e.target.value })}
+                  className="bg-[#1F1F23] border-[#323238] text-[#EFEFF1]"
+                />
+              </div>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setWindows([...windows, newWindow()])}
+            className="w-full bg-transparent text-[#EFEFF1] border-[#323238] hover:bg-[#26262C] hover:text-white"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add window
+          </Button>
+        </div>
+
+        <DialogFooter className="mt-6 flex sm:justify-between justify-between gap-2">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => scheduleMutation.mutate(null)}
+            disabled={scheduleMutation.isPending || !farm?.schedule}
+            className="text-[#ADADB8] hover:bg-[#26262C] hover:text-white"
+          >
+            Remove schedule
+          </Button>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={scheduleMutation.isPending}
+              className="bg-transparent text-[#EFEFF1] border-[#323238] hover:bg-[#26262C] hover:text-white"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={scheduleMutation.isPending}
+              className="bg-[#9146FF] hover:bg-[#772CE8] text-white"
+            >
+              {scheduleMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
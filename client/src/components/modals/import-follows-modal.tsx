@@ -0,0 +1,198 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { loadFarmDefaults } from "@/lib/farm-defaults";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { PublicAccount } from "@shared/schema";
+
+// Shape of GET /api/accounts/:id/follows
+interface FollowedChannel {
+  id: string;
+  login: string;
+  displayName: string;
+  followedAt: string;
+  farmed: boolean;
+}
+
+interface ImportResult {
+  created: unknown[];
+  skipped: string[];
+}
+
+interface ImportFollowsModalProps {
+  account: PublicAccount | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export default function ImportFollowsModal({
+  account,
+  onClose,
+  onSuccess,
+}: ImportFollowsModalProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [searchTerm, setSearchTerm] = useState("");
+  const { toast } = useToast();
+
+  const { data: follows, isLoading, error } = useQuery<FollowedChannel[]>({
+    queryKey: [`/api/accounts/${account?.id}/follows`],
+    enabled: !!account, // Only fetch when the modal is open
+  });
+
+  // Start every opening with nothing selected
+  useEffect(() => {
+    setSelected(new Set());
+    setSearchTerm("");
+  }, [account]);
+
+  const visible = useMemo(() => (follows ?? []).filter(channel =>
+    channel.login.includes(searchTerm.toLowerCase()) ||
+    channel.displayName.toLowerCase().includes(searchTerm.toLowerCase())
+  ), [follows, searchTerm]);
+  const selectable = visible.filter(channel => !channel.farmed);
+  const allSelected = selectable.length > 0 && selectable.every(channel => selected.has(channel.id));
+
+  const toggle = (channelId: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(channelId);
+    else next.delete(channelId);
+    setSelected(next);
+  };
+
+  const toggleAll = () => {
+    const next = new Set(selected);
+    selectable.forEach(channel => allSelected ? next.delete(channel.id) : next.add(channel.id));
+    setSelected(next);
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/accounts/${account?.id}/follows/import`, {
+        channelIds: Array.from(selected),
+        // Saved on the Settings page
+        ...loadFarmDefaults(),
+      });
+      return res.json() as Promise<ImportResult>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Channels imported",
+        description: `Created ${result.created.length} farm${result.created.length === 1 ? "" : "s"}` +
+          (result.skipped.length > 0 ? `; ${result.skipped.length} already farmed` : "") + ".",
+      });
+      onSuccess();
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to import channels",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!account} onOpenChange={onClose}>
+      <DialogContent className="bg-[#1F1F23] border-[#323238] max-w-md p-4 md:p-6 rounded-xl shadow-xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold bg-gradient-to-r from-[#9146FF] to-[#772CE8] bg-clip-text text-transparent">
+            Import Followed Channels
+          </DialogTitle>
+          <DialogDescription className="text-[#ADADB8]">
+            Pick channels {account?.name} follows to farm. New farms use the defaults from Settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 mt-4">
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Search channels"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="bg-[#26262C] border-[#323238] text-[#EFEFF1] focus:border-[#9146FF] placeholder:text-[#7D7D8E]"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={toggleAll}
+              disabled={selectable.length === 0}
+              className="bg-transparent text-[#EFEFF1] border-[#323238] hover:bg-[#26262C] hover:text-white"
+            >
+              {allSelected ? "Select none" : "Select all"}
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <Skeleton className="h-72 w-full" />
+          ) : error ? (
+            <p className="text-sm text-red-400">
+              {error instanceof Error ? error.message : "Failed to load followed channels"}
+            </p>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-[#ADADB8] py-8 text-center">No followed channels found.</p>
+          ) : (
+            <ScrollArea className="h-72 border border-[#323238] rounded-md bg-[#26262C]">
+              <ul className="p-2 space-y-1">
+                {visible.map(channel => (
+                  <li key={channel.id} className="flex items-center space-x-2 px-2 py-1">
+                    <Checkbox
+                      id={`follow-${channel.id}`}
+                      checked={channel.farmed || selected.has(channel.id)}
+                      disabled={channel.farmed}
+                      onCheckedChange={(checked) => toggle(channel.id, checked === true)}
+                      className="border-[#323238] data-[state=checked]:bg-[#9146FF] data-[state=checked]:border-[#9146FF]"
+                    />
+                    <label htmlFor={`follow-${channel.id}`} className="flex-1 text-sm text-[#EFEFF1] cursor-pointer">
+                      {channel.displayName}
+                      {channel.displayName.toLowerCase() !== channel.login && (
+                        <span className="text-[#7D7D8E]"> ({channel.login})</span>
+                      )}
+                    </label>
+                    {channel.farmed && <span className="text-xs text-[#7D7D8E]">Already farmed</span>}
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          )}
+        </div>
+
+        <DialogFooter className="mt-6 flex sm:justify-end justify-between gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            disabled={importMutation.isPending}
+            className="bg-transparent text-[#EFEFF1] border-[#323238] hover:bg-[#26262C] hover:text-white flex-1 sm:flex-none"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => importMutation.mutate()}
+            disabled={importMutation.isPending || selected.size === 0}
+            className="bg-[#9146FF] hover:bg-[#772CE8] text-white flex-1 sm:flex-none"
+          >
+            {importMutation.isPending
+              ? "Importing..."
+              : `Import ${selected.size} channel${selected.size === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
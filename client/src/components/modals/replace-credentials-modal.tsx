@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PublicAccount } from "@shared/schema";
+
+const formSchema = z.object({
+  authType: z.enum(["cookie", "oauth"]),
+  authCredentials: z.string().min(5, "Authentication credentials are required"),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface ReplaceCredentialsModalProps {
+  account: PublicAccount | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export default function ReplaceCredentialsModal({
+  account,
+  onClose,
+  onSuccess,
+}: ReplaceCredentialsModalProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      authType: "cookie",
+      authCredentials: "",
+    },
+  });
+
+  const replaceCredentialsMutation = useMutation({
+    mutationFn: async (data: FormValues) => {
+      return apiRequest("PUT", `/api/accounts/${account?.id}/credentials`, data);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Credentials updated",
+        description: "The account's Twitch credentials have been replaced.",
+      });
+      form.reset();
+      onSuccess();
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to replace credentials",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      setIsLoading(false);
+    },
+  });
+
+  const onSubmit = (data: FormValues) => {
+    setIsLoading(true);
+    replaceCredentialsMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={!!account} onOpenChange={onClose}>
+      <DialogContent className="bg-[#1F1F23] border-[#323238] max-w-md p-4 md:p-6 rounded-xl shadow-xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold bg-gradient-to-r from-[#9146FF] to-[#772CE8] bg-clip-text text-transparent">
+            Replace Credentials
+          </DialogTitle>
+          <DialogDescription className="text-[#ADADB8]">
+            Enter new Twitch credentials for "{account?.name}". The current credentials will be overwritten.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 mt-4">
+            <FormField
+              control={form.control}
+              name="authType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-[#EFEFF1]">Authentication Method</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    defaultValue={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="bg-[#26262C] border-[#323238] text-[#EFEFF1] focus:border-[#9146FF] focus:ring-[#9146FF]">
+                        <SelectValue placeholder="Select auth method" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent className="bg-[#18181B] border-[#323238] text-[#EFEFF1]">
+                      <SelectItem value="cookie" className="hover:bg-[#26262C] hover:text-white focus:bg-[#9146FF]">Cookie Authentication</SelectItem>
+                      <SelectItem value="oauth" className="hover:bg-[#26262C] hover:text-white focus:bg-[#9146FF]">OAuth Token</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="authCredentials"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-[#EFEFF1]">Authentication Credentials</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      rows={3}
+                      placeholder="Paste your authentication cookie or token here"
+                      className="bg-[#26262C] border-[#323238] text-[#EFEFF1] focus:border-[#9146FF] placeholder:text-[#7D7D8E] resize-none"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage className="text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="mt-6 flex sm:justify-end justify-between gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={isLoading}
+                className="bg-transparent text-[#EFEFF1] border-[#323238] hover:bg-[#26262C] hover:text-white flex-1 sm:flex-none"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="bg-[#9146FF] hover:bg-[#772CE8] text-white flex-1 sm:flex-none"
+              >
+                {isLoading ? "Saving..." : "Replace Credentials"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
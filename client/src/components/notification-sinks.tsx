@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { queryClient } from "@/lib/queryClient";
+import { apiRequest } from "@/lib/api";
+import { NotificationSink } from "@shared/schema";
+import AddNotificationSinkModal from "@/components/modals/add-notification-sink-modal";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { PlusIcon, SendIcon, Trash2Icon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+const SINKS_QUERY_KEY = ['/api/notifications/sinks'];
+
+export default function NotificationSinks() {
+  const [isAddSinkModalOpen, setIsAddSinkModalOpen] = useState(false);
+  const { toast } = useToast();
+
+  const { data: sinks, isLoading } = useQuery<NotificationSink[]>({
+    queryKey: SINKS_QUERY_KEY,
+  });
+
+  const toggleSinkMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: number, enabled: boolean }) => {
+      return apiRequest("PATCH", `/api/notifications/sinks/${id}`, { enabled });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SINKS_QUERY_KEY });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update notification sink",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteSinkMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/notifications/sinks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SINKS_QUERY_KEY });
+      toast({
+        title: "Notification sink removed",
+        description: "The webhook will no longer receive activity.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete notification sink",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const testSinkMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("POST", `/api/notifications/sinks/${id}/test`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Test sent",
+        description: "A test message was delivered to the webhook.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Test failed",
+        description: error instanceof Error ? error.message : "Failed to deliver test message",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: SINKS_QUERY_KEY });
+    }
+  });
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Notifications</CardTitle>
+          <CardDescription>Send activity logs to Discord webhooks</CardDescription>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={() => setIsAddSinkModalOpen(true)}>
+          <PlusIcon className="mr-2 h-4 w-4" />
+          Add Sink
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="bg-muted animate-pulse rounded-lg h-16"></div>
+        ) : sinks && sinks.length > 0 ? (
+          sinks.map(sink => (
+            <div key={sink.id} className="border border-border rounded-lg p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-medium">{sink.name}</div>
+                  <div className="font-mono text-xs text-muted-foreground">{sink.webhookUrl}</div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground"
+                    title="Send test message"
+                    disabled={testSinkMutation.isPending}
+                    onClick={() => testSinkMutation.mutate(sink.id)}
+                  >
+                    <SendIcon className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    title="Remove sink"
+                    onClick={() => deleteSinkMutation.mutate(sink.id)}
+                  >
+                    <Trash2Icon className="h-4 w-4" />
+                  </Button>
+                  <Switch
+                    checked={!!sink.enabled}
+                    onCheckedChange={(enabled) => toggleSinkMutation.mutate({ id: sink.id, enabled })}
+                  />
+                </div>
+              </div>
+              <div className="text-sm text-muted-foreground">
+                Statuses: <span className="capitalize">{sink.statuses.join(", ")}</span>
+                {" · "}
+                Events: {sink.events.length > 0 ? sink.events.join(", ") : "all"}
+              </div>
+              <div className="text-sm">
+                {sink.lastDeliveryAt ? (
+                  <span className={sink.lastDeliveryStatus === "failed" ? "text-destructive" : "text-success"}>
+                    {sink.lastDeliveryStatus === "failed" ? "Failed" : "Delivered"}{" "}
+                    {formatDistanceToNow(new Date(sink.lastDeliveryAt), { addSuffix: true })}
+                    {sink.lastError && `: ${sink.lastError}`}
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">No deliveries yet</span>
+                )}
+              </div>
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No notification sinks configured. Add a Discord webhook to get notified about farm activity.
+          </p>
+        )}
+      </CardContent>
+
+      <AddNotificationSinkModal
+        isOpen={isAddSinkModalOpen}
+        onClose={() => setIsAddSinkModalOpen(false)}
+        onSuccess={() => queryClient.invalidateQueries({ queryKey: SINKS_QUERY_KEY })}
+      />
+    </Card>
+  );
+}
@@ -3,7 +3,7 @@ import { useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
-import { Account } from "@shared/schema";
+import { PublicAccount } from "@shared/schema";
 import { AlertCircle, Check, ChevronRight, Sparkles, Zap } from "lucide-react";
 import {
   Dialog,
@@ -34,7 +34,7 @@ interface OptimizationWizardProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
-  accounts: Account[];
+  accounts: PublicAccount[];
 }
 
 export default function OptimizationWizard({
@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+
+// Shape of GET /api/diagnostics/rate-limiter
+interface BucketMetrics {
+  perSecond: number;
+  burst: number;
+  available: number;
+}
+
+interface RateLimiterMetrics {
+  queued: number;
+  queuedByPriority: Record<"claim" | "watch" | "lookup", number>;
+  requests: number;
+  delayed: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  global: BucketMetrics;
+  endpoints: Record<"gql" | "helix" | "web" | "spade", BucketMetrics>;
+  accounts: (BucketMetrics & { accountId: number, accountName: string, queued: number })[];
+}
+
+const endpointLabels: Record<keyof RateLimiterMetrics["endpoints"], string> = {
+  gql: "GQL",
+  helix: "Helix API",
+  web: "Channel pages",
+  spade: "Watch heartbeats",
+};
+
+function Bucket({ label, bucket, detail }: { label: string, bucket: BucketMetrics, detail?: string }) {
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm mb-1">
+        <span>{label}</span>
+        <span className="text-muted-foreground">
+          {bucket.available} / {bucket.burst} tokens · {bucket.perSecond}/s{detail && ` · ${detail}`}
+        </span>
+      </div>
+      <Progress value={(bucket.available / bucket.burst) * 100} />
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string, value: string | number }) {
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground mb-1">{label}</p>
+      <p className="font-medium">{value}</p>
+    </div>
+  );
+}
+
+export default function RateLimiterDiagnostics() {
+  const { data, isLoading } = useQuery<RateLimiterMetrics>({
+    queryKey: ['/api/diagnostics/rate-limiter'],
+    refetchInterval: 5_000,
+  });
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle>Diagnostics</CardTitle>
+        <CardDescription>
+          Requests to Twitch wait for a token from the global, endpoint and account buckets; claims go first
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !data ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Stat label="Requests sent" value={data.requests.toLocaleString()} />
+              <Stat label="Delayed" value={data.delayed.toLocaleString()} />
+              <Stat label="Average / max wait" value={`${data.averageWaitMs} / ${data.maxWaitMs} ms`} />
+              <Stat
+                label="Queued now"
+                value={`${data.queued} (${data.queuedByPriority.claim} claims, ${data.queuedByPriority.watch} heartbeats, ${data.queuedByPriority.lookup} lookups)`}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <Bucket label="Global" bucket={data.global} />
+              {(Object.keys(endpointLabels) as (keyof typeof endpointLabels)[]).map(endpoint => (
+                <Bucket key={endpoint} label={endpointLabels[endpoint]} bucket={data.endpoints[endpoint]} />
+              ))}
+            </div>
+
+            {data.accounts.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-sm font-medium">Accounts</p>
+                {data.accounts.map(account => (
+                  <Bucket
+                    key={account.accountId}
+                    label={account.accountName}
+                    bucket={account}
+                    detail={account.queued > 0 ? `${account.queued} queued` : undefined}
+                  />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,15 +6,18 @@ import {
   UsersIcon, 
   MonitorIcon, 
   TrendingUpIcon, 
+  GiftIcon, 
   ListIcon, 
   SettingsIcon, 
   LogOutIcon 
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/api";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { useIsMobile as useMobile } from "@/hooks/use-mobile";
 import { useEffect, useState } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -45,9 +48,7 @@ export default function Sidebar() {
     }
   }, [location.pathname, isMobile]);
 
-  const { data: user } = useQuery({
-    queryKey: ['/api/auth/user'],
-  });
+  const { user } = useAuth();
 
   const logoutMutation = useMutation({
     mutationFn: async () => {
@@ -58,6 +59,8 @@ export default function Sidebar() {
         title: "Logged out",
         description: "You have been successfully logged out.",
       });
+      // Drop everything cached for this session, including the user
+      queryClient.clear();
       navigate("/login");
     },
     onError: (error) => {
@@ -79,6 +82,7 @@ export default function Sidebar() {
     { path: "/accounts", label: "Accounts", icon: <UsersIcon className="w-5" /> },
     { path: "/channels", label: "Channels", icon: <MonitorIcon className="w-5" /> },
     { path: "/predictions", label: "Predictions", icon: <TrendingUpIcon className="w-5" /> },
+    { path: "/drops", label: "Drops", icon: <GiftIcon className="w-5" /> },
     { path: "/logs", label: "Activity Logs", icon: <ListIcon className="w-5" /> },
     { path: "/settings", label: "Settings", icon: <SettingsIcon className="w-5" /> },
   ];
@@ -122,11 +126,16 @@ export default function Sidebar() {
         <div className="flex items-center justify-between">
           <div className="flex items-center">
             <div className="w-8 h-8 rounded-full bg-primary flex items-center justify-center text-white font-medium">
-              {user?.user?.username?.charAt(0).toUpperCase() || "U"}
+              {user?.username?.charAt(0).toUpperCase() || "U"}
+            </div>
+            <div className="ml-2 flex flex-col">
+              <span className="text-sm font-medium">
+                {user?.username || "User"}
+              </span>
+              {user?.role === "admin" && (
+                <span className="text-xs text-muted-foreground">Admin · all users</span>
+              )}
             </div>
-            <span className="ml-2 text-sm font-medium">
-              {user?.user?.username || "User"}
-            </span>
           </div>
           <Button 
             variant="ghost" 
@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { AUTH_USER_QUERY_KEY, getQueryFn } from "@/lib/queryClient";
+import type { UserRole } from "@shared/schema";
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  role: UserRole;
+}
+
+// Shape returned by GET /api/auth/user; null when there is no session
+export type AuthSession = { user: AuthUser } | null;
+
+export function useAuth() {
+  const { data, isLoading } = useQuery<AuthSession>({
+    queryKey: AUTH_USER_QUERY_KEY,
+    queryFn: getQueryFn<AuthSession>({ on401: "returnNull" }),
+  });
+
+  return {
+    user: data?.user ?? null,
+    isLoading,
+  };
+}
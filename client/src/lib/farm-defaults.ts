@@ -0,0 +1,47 @@
+// Features and prediction settings new farms start with, edited on the
+// Settings page and kept in this browser's localStorage
+import {
+  defaultFarmFeatures,
+  defaultPredictionSettings,
+  farmFeaturesSchema,
+  predictionSettingsSchema,
+  type FarmFeatures,
+  type PredictionSettings,
+} from "@shared/schema";
+
+export interface FarmDefaults {
+  features: FarmFeatures;
+  predictionSettings: PredictionSettings;
+}
+
+const STORAGE_KEY = "twitchfarm-farm-defaults";
+
+// Saved defaults, with the built-in ones for anything missing or unreadable
+export function loadFarmDefaults(): FarmDefaults {
+  let stored: Partial<FarmDefaults> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+  } catch {
+    // Corrupt entry; use the built-in defaults
+  }
+
+  const features = farmFeaturesSchema.safeParse({ ...defaultFarmFeatures, ...stored.features });
+  const predictionSettings = predictionSettingsSchema.safeParse({
+    ...defaultPredictionSettings,
+    ...stored.predictionSettings,
+  });
+  return {
+    features: features.success ? features.data : defaultFarmFeatures,
+    predictionSettings: predictionSettings.success ? predictionSettings.data : defaultPredictionSettings,
+  };
+}
+
+export function saveFarmDefaults(defaults: FarmDefaults): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(defaults));
+}
+
+// Forgets the saved defaults so the built-in ones apply again
+export function resetFarmDefaults(): FarmDefaults {
+  localStorage.removeItem(STORAGE_KEY);
+  return loadFarmDefaults();
+}
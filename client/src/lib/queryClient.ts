@@ -1,4 +1,4 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { MutationCache, QueryCache, QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -41,7 +41,24 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+export const AUTH_USER_QUERY_KEY = ['/api/auth/user'];
+
+// Both apiRequest helpers throw errors formatted as "<status>: <body>"
+export function isUnauthorizedError(error: unknown): boolean {
+  return error instanceof Error && /^401: /.test(error.message);
+}
+
+// A 401 from any request means the session expired: forget the cached user
+// so the route guard sends the app back to the login page
+function handleUnauthorized(error: unknown) {
+  if (isUnauthorizedError(error)) {
+    queryClient.setQueryData(AUTH_USER_QUERY_KEY, null);
+  }
+}
+
 export const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: handleUnauthorized }),
+  mutationCache: new MutationCache({ onError: handleUnauthorized }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
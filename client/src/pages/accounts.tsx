@@ -3,11 +3,13 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import Sidebar from "@/components/sidebar";
 import AddAccountModal from "@/components/modals/add-account-modal";
+import ReplaceCredentialsModal from "@/components/modals/replace-credentials-modal";
+import ImportFollowsModal from "@/components/modals/import-follows-modal";
 import { apiRequest } from "@/lib/api";
-import { Account } from "@shared/schema";
+import { PublicAccount, WatchPriorityCriterion } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { PlusIcon, Trash2Icon, Edit2Icon, CheckCircleIcon } from "lucide-react";
+import { PlusIcon, Trash2Icon, Edit2Icon, CheckCircleIcon, KeyRoundIcon, ArrowUpIcon, ListPlusIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import {
   AlertDialog,
@@ -22,12 +24,21 @@ import {
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 
+const watchPriorityLabels: Record<WatchPriorityCriterion, string> = {
+  order: "Farm priority",
+  streak: "Watch streak pending",
+  drops: "Drops enabled",
+  balance: "Lowest balance",
+};
+
 export default function Accounts() {
   const [isAddAccountModalOpen, setIsAddAccountModalOpen] = useState(false);
-  const [accountToDelete, setAccountToDelete] = useState<Account | null>(null);
+  const [accountToDelete, setAccountToDelete] = useState<PublicAccount | null>(null);
+  const [accountToRekey, setAccountToRekey] = useState<PublicAccount | null>(null);
+  const [accountToImport, setAccountToImport] = useState<PublicAccount | null>(null);
   const { toast } = useToast();
 
-  const { data: accounts, isLoading } = useQuery<Account[]>({
+  const { data: accounts, isLoading } = useQuery<PublicAccount[]>({
     queryKey: ['/api/accounts'],
   });
 
@@ -72,7 +83,29 @@ export default function Accounts() {
     }
   });
 
-  const handleDeleteAccount = (account: Account) => {
+  const watchPriorityMutation = useMutation({
+    mutationFn: async ({ id, watchPriority }: { id: number, watchPriority: WatchPriorityCriterion[] }) => {
+      return apiRequest("PATCH", `/api/accounts/${id}`, { watchPriority });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update watch priority",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const moveCriterionUp = (account: PublicAccount, index: number) => {
+    const watchPriority = [...account.watchPriority];
+    [watchPriority[index - 1], watchPriority[index]] = [watchPriority[index], watchPriority[index - 1]];
+    watchPriorityMutation.mutate({ id: account.id, watchPriority });
+  };
+
+  const handleDeleteAccount = (account: PublicAccount) => {
     setAccountToDelete(account);
   };
 
@@ -82,7 +115,7 @@ export default function Accounts() {
     }
   };
 
-  const handleToggleAccount = (account: Account) => {
+  const handleToggleAccount = (account: PublicAccount) => {
     toggleAccountMutation.mutate({ id: account.id, active: !account.active });
   };
 
@@ -127,6 +160,15 @@ export default function Accounts() {
                   <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                     <CardTitle className="text-xl font-semibold">{account.name}</CardTitle>
                     <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground"
+                        title="Import followed channels"
+                        onClick={() => setAccountToImport(account)}
+                      >
+                        <ListPlusIcon className="h-4 w-4" />
+                      </Button>
                       <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground">
                         <Edit2Icon className="h-4 w-4" />
                       </Button>
@@ -150,18 +192,77 @@ export default function Accounts() {
                         <span className="text-sm text-muted-foreground">Auth Method:</span>
                         <span className="font-medium">{getAuthTypeLabel(account.authType)}</span>
                       </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Credentials:</span>
+                        <div className="flex items-center">
+                          <span className={`font-mono text-sm ${account.credentials.valid ? "" : "text-destructive"}`}>
+                            {account.credentials.valid && account.credentials.last4
+                              ? `••••${account.credentials.last4}`
+                              : "Invalid"}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 ml-1 text-muted-foreground"
+                            title="Replace credentials"
+                            onClick={() => setAccountToRekey(account)}
+                          >
+                            <KeyRoundIcon className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      {account.proxy && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm text-muted-foreground">Proxy:</span>
+                          <span className="font-mono text-sm truncate ml-2" title={account.proxy}>{account.proxy}</span>
+                        </div>
+                      )}
                       <div className="flex items-center justify-between">
                         <span className="text-sm text-muted-foreground">Status:</span>
                         <div className="flex items-center">
                           {account.active ? (
                             <CheckCircleIcon className="h-4 w-4 text-success mr-1" />
+                          ) : account.authError ? (
+                            <div className="h-3 w-3 rounded-full bg-destructive mr-2" />
                           ) : (
                             <div className="h-3 w-3 rounded-full bg-border mr-2" />
                           )}
-                          <span className="font-medium">{account.active ? "Active" : "Inactive"}</span>
+                          <span className="font-medium">
+                            {account.active ? "Active" : account.authError ? "Credentials rejected" : "Inactive"}
+                          </span>
                         </div>
                       </div>
-                      <div className="flex items-center justify-between border-t border-border pt-4 mt-2">
+                      {account.authError && (
+                        <div className="bg-destructive bg-opacity-10 text-destructive text-sm p-2 rounded">
+                          Farming paused after Twitch rejected this account's credentials. Replace them to resume.
+                        </div>
+                      )}
+                      <div className="border-t border-border pt-4 mt-2">
+                        <p className="text-sm mb-1">Watch priority</p>
+                        <p className="text-xs text-muted-foreground mb-2">
+                          Twitch credits watch time on two live channels at a time; these decide which, in order.
+                        </p>
+                        <ol className="space-y-1">
+                          {account.watchPriority.map((criterion, index) => (
+                            <li key={criterion} className="flex items-center justify-between text-sm">
+                              <span>{index + 1}. {watchPriorityLabels[criterion]}</span>
+                              {index > 0 && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6 text-muted-foreground"
+                                  title="Move up"
+                                  disabled={watchPriorityMutation.isPending}
+                                  onClick={() => moveCriterionUp(account, index)}
+                                >
+                                  <ArrowUpIcon className="h-3 w-3" />
+                                </Button>
+                              )}
+                            </li>
+                          ))}
+                        </ol>
+                      </div>
+                      <div className="flex items-center justify-between border-t border-border pt-4">
                         <Label htmlFor={`account-active-${account.id}`} className="text-sm">
                           Auto-farming enabled
                         </Label>
@@ -195,6 +296,23 @@ export default function Accounts() {
         onSuccess={() => queryClient.invalidateQueries({ queryKey: ['/api/accounts'] })}
       />
       
+      {/* Replace Credentials Modal */}
+      <ReplaceCredentialsModal
+        account={accountToRekey}
+        onClose={() => setAccountToRekey(null)}
+        onSuccess={() => queryClient.invalidateQueries({ queryKey: ['/api/accounts'] })}
+      />
+      
+      {/* Import Followed Channels Modal */}
+      <ImportFollowsModal
+        account={accountToImport}
+        onClose={() => setAccountToImport(null)}
+        onSuccess={() => {
+          queryClient.invalidateQueries({ queryKey: ['/api/farms'] });
+          queryClient.invalidateQueries({ queryKey: [`/api/accounts/${accountToImport?.id}/follows`] });
+        }}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!accountToDelete} onOpenChange={() => setAccountToDelete(null)}>
         <AlertDialogContent className="bg-card border-border">
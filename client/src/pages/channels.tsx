@@ -24,6 +24,7 @@ export default function Channels() {
 
   const filteredFarms = farms?.filter(farm => 
     farm.channelName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (farm.gameName ?? "").toLowerCase().includes(searchTerm.toLowerCase()) ||
     farm.accountName.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
@@ -90,7 +91,7 @@ export default function Channels() {
                           />
                         ) : (
                           <div className="w-10 h-10 rounded-full bg-secondary flex items-center justify-center">
-                            {farm.channelName.charAt(0).toUpperCase()}
+                            {(farm.gameName ?? farm.channelName).charAt(0).toUpperCase()}
                           </div>
                         )}
                         <div 
@@ -98,8 +99,10 @@ export default function Channels() {
                         ></div>
                       </div>
                       <div>
-                        <CardTitle className="text-lg">{farm.channelName}</CardTitle>
-                        <p className="text-xs text-muted-foreground">via {farm.accountName}</p>
+                        <CardTitle className="text-lg">{farm.targetType === "game" ? farm.gameName : farm.channelDisplayName || farm.channelName}</CardTitle>
+                        <p className="text-xs text-muted-foreground">
+                          {farm.targetType === "game" && farm.channelName && `on ${farm.channelDisplayName || farm.channelName} `}via {farm.accountName}
+                        </p>
                       </div>
                     </div>
                   </CardHeader>
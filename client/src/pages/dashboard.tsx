@@ -10,21 +10,27 @@ import AddFarmModal from "@/components/modals/add-farm-modal";
 import OptimizationWizard from "@/components/optimization-wizard";
 import { apiRequest } from "@/lib/api";
 import { formatTimeDuration } from "@/lib/time-utils";
-import { Farm, Log, Account } from "@shared/schema";
+import { Farm, Log, PublicAccount, Stat, WatchState } from "@shared/schema";
 import { PlusIcon, RotateCwIcon, MonitorIcon, Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 interface ExtendedFarm extends Farm {
   accountName: string;
+  watchState: WatchState | null;
 }
 
+// GET /api/stats; the prediction fields are only sent to admins
+type DashboardStats = Omit<Stat, "predictionRate" | "predictionsResolved" | "predictionsWon">
+  & Partial<Pick<Stat, "predictionRate" | "predictionsResolved" | "predictionsWon">>
+  & { changes: { farmsChange: number, pointsClaimedChange: number, watchHoursChange: number } };
+
 export default function Dashboard() {
   const [isAddAccountModalOpen, setIsAddAccountModalOpen] = useState(false);
   const [isAddFarmModalOpen, setIsAddFarmModalOpen] = useState(false);
   const [isOptimizationWizardOpen, setIsOptimizationWizardOpen] = useState(false);
 
   // Fetch data
-  const { data: stats, isLoading: isLoadingStats } = useQuery({
+  const { data: stats, isLoading: isLoadingStats } = useQuery<DashboardStats>({
     queryKey: ['/api/stats'],
   });
 
@@ -40,7 +46,7 @@ export default function Dashboard() {
     }
   });
   
-  const { data: accounts, isLoading: isLoadingAccounts } = useQuery<Account[]>({
+  const { data: accounts, isLoading: isLoadingAccounts } = useQuery<PublicAccount[]>({
     queryKey: ['/api/accounts'],
   });
 
@@ -155,13 +161,15 @@ export default function Dashboard() {
               loading={isLoadingStats}
             />
             
-            <StatCard 
-              title="Prediction Success"
-              value={isLoadingStats ? "..." : `${stats?.predictionRate || 0}%`}
-              icon="prediction"
-              change={stats?.changes?.predictionRateChange}
-              loading={isLoadingStats}
-            />
+            {/* Only admins get the installation-wide prediction results */}
+            {(isLoadingStats || stats?.predictionRate !== undefined) && (
+              <StatCard 
+                title="Prediction Success"
+                value={isLoadingStats ? "..." : `${stats?.predictionRate || 0}%`}
+                icon="prediction"
+                loading={isLoadingStats}
+              />
+            )}
           </div>
           
           {/* Active Farms Section */}
@@ -0,0 +1,232 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import Sidebar from "@/components/sidebar";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { ClaimedDrop } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangleIcon, CheckCircleIcon, RotateCwIcon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+// Shapes of GET /api/drops; dates arrive as ISO strings
+interface DropProgress {
+  id: string;
+  name: string;
+  requiredMinutes: number;
+  watchedMinutes: number;
+  claimed: boolean;
+}
+
+interface CampaignProgress {
+  id: string;
+  name: string;
+  gameName: string | null;
+  endsAt: string;
+  drops: DropProgress[];
+}
+
+interface Campaign {
+  id: string;
+  name: string;
+  gameName: string | null;
+  status: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+interface AccountDrops {
+  accountId: number;
+  accountName: string;
+  updatedAt: string;
+  inProgress: CampaignProgress[];
+  available: Campaign[];
+  error: string | null;
+}
+
+interface DropsOverview {
+  accounts: AccountDrops[];
+  claimed: ClaimedDrop[];
+}
+
+const DROPS_QUERY_KEY = ['/api/drops'];
+
+function expiry(endsAt: string) {
+  const end = new Date(endsAt);
+  return end.getTime() < Date.now()
+    ? `Ended ${formatDistanceToNow(end, { addSuffix: true })}`
+    : `Ends ${formatDistanceToNow(end, { addSuffix: true })}`;
+}
+
+export default function Drops() {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<DropsOverview>({
+    queryKey: DROPS_QUERY_KEY,
+    refetchInterval: 60_000,
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/drops/refresh");
+      return res.json();
+    },
+    onSuccess: (overview: DropsOverview) => {
+      queryClient.setQueryData(DROPS_QUERY_KEY, overview);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to refresh drops",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-background">
+      <Sidebar />
+
+      {/* Main Content Area */}
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {/* Top Bar */}
+        <header className="bg-card border-b border-border h-16 flex items-center justify-between px-6">
+          <h2 className="text-lg font-medium">Drops</h2>
+
+          <Button
+            variant="outline"
+            onClick={() => refreshMutation.mutate()}
+            disabled={refreshMutation.isPending}
+          >
+            <RotateCwIcon className={`mr-2 h-4 w-4 ${refreshMutation.isPending ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </header>
+
+        {/* Drops Content */}
+        <main className="flex-1 overflow-y-auto p-6 scrollbar-styled space-y-6">
+          {isLoading ? (
+            <Skeleton className="h-48 w-full" />
+          ) : !data || data.accounts.length === 0 ? (
+            <div className="bg-card border border-border rounded-lg p-8 text-center">
+              <p className="text-muted-foreground">
+                No accounts are farming drops. Turn on "Claim Drops" for a farm to track its account's campaigns.
+              </p>
+            </div>
+          ) : (
+            data.accounts.map(account => (
+              <Card key={account.accountId} className="bg-card border-border">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-lg font-semibold">{account.accountName}</CardTitle>
+                  <span className="text-xs text-muted-foreground">
+                    Updated {formatDistanceToNow(new Date(account.updatedAt), { addSuffix: true })}
+                  </span>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {account.error && (
+                    <div className="bg-warning bg-opacity-10 text-warning text-sm p-2 rounded flex items-center">
+                      <AlertTriangleIcon className="h-4 w-4 mr-2" />
+                      {account.error}
+                    </div>
+                  )}
+
+                  {account.inProgress.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No campaigns in progress.</p>
+                  ) : (
+                    account.inProgress.map(campaign => (
+                      <div key={campaign.id} className="border border-border rounded-lg p-4">
+                        <div className="flex items-center justify-between mb-3">
+                          <div>
+                            <p className="font-medium">{campaign.name}</p>
+                            {campaign.gameName && (
+                              <p className="text-xs text-muted-foreground">{campaign.gameName}</p>
+                            )}
+                          </div>
+                          <span className="text-xs text-muted-foreground">{expiry(campaign.endsAt)}</span>
+                        </div>
+                        <div className="space-y-3">
+                          {campaign.drops.map(drop => (
+                            <div key={drop.id}>
+                              <div className="flex items-center justify-between text-sm mb-1">
+                                <span className="flex items-center">
+                                  {drop.claimed && <CheckCircleIcon className="h-4 w-4 text-success mr-1" />}
+                                  {drop.name}
+                                </span>
+                                <span className="text-muted-foreground">
+                                  {drop.claimed
+                                    ? "Claimed"
+                                    : `${Math.min(drop.watchedMinutes, drop.requiredMinutes)} / ${drop.requiredMinutes} min`}
+                                </span>
+                              </div>
+                              <Progress value={Math.min(100, (drop.watchedMinutes / drop.requiredMinutes) * 100)} />
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))
+                  )}
+
+                  {account.available.length > 0 && (
+                    <div>
+                      <p className="text-sm font-medium mb-2">Other campaigns</p>
+                      <ul className="space-y-1">
+                        {account.available.map(campaign => (
+                          <li key={campaign.id} className="flex items-center justify-between text-sm">
+                            <span>
+                              {campaign.name}
+                              {campaign.gameName && <span className="text-muted-foreground"> · {campaign.gameName}</span>}
+                            </span>
+                            <span className="text-xs text-muted-foreground">
+                              {campaign.status === "UPCOMING"
+                                ? `Starts ${formatDistanceToNow(new Date(campaign.startsAt), { addSuffix: true })}`
+                                : expiry(campaign.endsAt)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          )}
+
+          {data && data.claimed.length > 0 && (
+            <Card className="bg-card border-border">
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold">Claimed drops</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Drop</TableHead>
+                      <TableHead>Campaign</TableHead>
+                      <TableHead>Game</TableHead>
+                      <TableHead>Claimed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.claimed.map(drop => (
+                      <TableRow key={drop.id}>
+                        <TableCell>{drop.dropName}</TableCell>
+                        <TableCell>{drop.campaignName}</TableCell>
+                        <TableCell>{drop.gameName ?? "—"}</TableCell>
+                        <TableCell>
+                          {drop.claimedAt ? formatDistanceToNow(new Date(drop.claimedAt), { addSuffix: true }) : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
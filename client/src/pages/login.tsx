@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -10,6 +10,7 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
+import type { AuthUser } from "@/hooks/use-auth";
 
 const loginSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
@@ -27,13 +28,14 @@ type LoginFormValues = z.infer<typeof loginSchema>;
 type RegisterFormValues = z.infer<typeof registerSchema>;
 
 interface LoginProps {
-  onLoginSuccess: () => void;
+  onLoginSuccess: (user: AuthUser) => void;
 }
 
 export default function Login({ onLoginSuccess }: LoginProps) {
   const [isRegistering, setIsRegistering] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
 
   const loginForm = useForm<LoginFormValues>({
@@ -64,8 +66,10 @@ export default function Login({ onLoginSuccess }: LoginProps) {
         description: `Welcome back, ${result.user.username}!`,
       });
       
-      onLoginSuccess();
-      navigate("/");
+      onLoginSuccess(result.user);
+      // Return to the page that required the login, if any
+      const from = (location.state as { from?: string } | null)?.from;
+      navigate(from && from !== "/login" ? from : "/", { replace: true });
     } catch (error) {
       toast({
         title: "Login failed",
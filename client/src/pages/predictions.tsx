@@ -104,7 +104,7 @@ export default function Predictions() {
                   <ul className="space-y-2">
                     {activePredictionFarms.map(farm => (
                       <li key={farm.id} className="flex items-center justify-between p-2 border border-border rounded-md">
-                        <span className="font-medium">{farm.channelName}</span>
+                        <span className="font-medium">{farm.channelDisplayName || farm.channelName}</span>
                         <div className="text-sm text-muted-foreground">
                           Strategy: {farm.predictionSettings.strategy}
                         </div>
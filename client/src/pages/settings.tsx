@@ -10,26 +10,48 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel } fr
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import NotificationSinks from "@/components/notification-sinks";
+import RateLimiterDiagnostics from "@/components/rate-limiter-diagnostics";
+import { loadFarmDefaults, resetFarmDefaults, saveFarmDefaults, type FarmDefaults } from "@/lib/farm-defaults";
+
+// The toggles and prediction fields are the defaults for new farms
+function formValues(defaults: FarmDefaults) {
+  return {
+    defaultPredictionStrategy: defaults.predictionSettings.strategy,
+    defaultMaxPointsPerPrediction: String(defaults.predictionSettings.maxPoints),
+    autoRefreshInterval: "5",
+    logRetentionDays: "30"
+  };
+}
 
 export default function Settings() {
-  const [isPredictionEnabled, setIsPredictionEnabled] = useState(true);
-  const [isAutoClaimEnabled, setIsAutoClaimEnabled] = useState(true);
-  const [isWatchTimeEnabled, setIsWatchTimeEnabled] = useState(true);
+  const [farmDefaults] = useState(loadFarmDefaults);
+  const [isPredictionEnabled, setIsPredictionEnabled] = useState(farmDefaults.features.predictions);
+  const [isAutoClaimEnabled, setIsAutoClaimEnabled] = useState(farmDefaults.features.claimPoints);
+  const [isWatchTimeEnabled, setIsWatchTimeEnabled] = useState(farmDefaults.features.watchTime);
+  const [isClaimDropsEnabled, setIsClaimDropsEnabled] = useState(farmDefaults.features.claimDrops);
   const [maxPointsAllocationPercentage, setMaxPointsAllocationPercentage] = useState(30);
   
   const { toast } = useToast();
   
   const form = useForm({
-    defaultValues: {
-      defaultPredictionStrategy: "majority",
-      defaultMaxPointsPerPrediction: "1000",
-      autoRefreshInterval: "5",
-      logRetentionDays: "30"
-    }
+    defaultValues: formValues(farmDefaults)
   });
   
-  const onSubmit = (data: any) => {
-    console.log(data);
+  const onSubmit = (data: ReturnType<typeof formValues>) => {
+    saveFarmDefaults({
+      features: {
+        claimPoints: isAutoClaimEnabled,
+        watchTime: isWatchTimeEnabled,
+        predictions: isPredictionEnabled,
+        claimDrops: isClaimDropsEnabled,
+      },
+      predictionSettings: {
+        ...farmDefaults.predictionSettings,
+        strategy: data.defaultPredictionStrategy,
+        maxPoints: parseInt(data.defaultMaxPointsPerPrediction) || farmDefaults.predictionSettings.maxPoints,
+      },
+    });
     toast({
       title: "Settings saved",
       description: "Your settings have been updated successfully.",
@@ -37,10 +59,12 @@ export default function Settings() {
   };
   
   const handleReset = () => {
-    form.reset();
-    setIsPredictionEnabled(true);
-    setIsAutoClaimEnabled(true);
-    setIsWatchTimeEnabled(true);
+    const defaults = resetFarmDefaults();
+    form.reset(formValues(defaults));
+    setIsPredictionEnabled(defaults.features.predictions);
+    setIsAutoClaimEnabled(defaults.features.claimPoints);
+    setIsWatchTimeEnabled(defaults.features.watchTime);
+    setIsClaimDropsEnabled(defaults.features.claimDrops);
     setMaxPointsAllocationPercentage(30);
     
     toast({
@@ -69,7 +93,7 @@ export default function Settings() {
                 <Card className="bg-card border-border">
                   <CardHeader>
                     <CardTitle>General Settings</CardTitle>
-                    <CardDescription>Configure the behavior of the TwitchFarm application</CardDescription>
+                    <CardDescription>Configure the behavior of the TwitchFarm application; the toggles apply to new farms</CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div className="flex items-center justify-between">
@@ -99,6 +123,20 @@ export default function Settings() {
                         onCheckedChange={setIsWatchTimeEnabled}
                       />
                     </div>
+
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="claim-drops" className="flex flex-col space-y-1">
+                        <span>Claim Drops</span>
+                        <span className="font-normal text-sm text-muted-foreground">
+                          Track drop campaigns and claim finished drops
+                        </span>
+                      </Label>
+                      <Switch
+                        id="claim-drops"
+                        checked={isClaimDropsEnabled}
+                        onCheckedChange={setIsClaimDropsEnabled}
+                      />
+                    </div>
                     
                     <FormField
                       control={form.control}
@@ -161,7 +199,7 @@ export default function Settings() {
                           <FormLabel>Default Prediction Strategy</FormLabel>
                           <Select 
                             onValueChange={field.onChange} 
-                            defaultValue={field.value}
+                            value={field.value}
                             disabled={!isPredictionEnabled}
                           >
                             <FormControl>
@@ -261,6 +299,15 @@ export default function Settings() {
                 </div>
               </form>
             </Form>
+
+            {/* Notification sinks save on their own, outside the settings form */}
+            <div className="mt-6">
+              <NotificationSinks />
+            </div>
+
+            <div className="mt-6">
+              <RateLimiterDiagnostics />
+            </div>
           </div>
         </main>
       </div>
@@ -5,7 +5,7 @@ if (!process.env.DATABASE_URL) {
 }
 
 export default defineConfig({
-  out: "./migrations",
+  out: "./migrations/postgres",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
   dbCredentials: {
@@ -0,0 +1,54 @@
+CREATE TABLE "accounts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"username" text NOT NULL,
+	"auth_type" text NOT NULL,
+	"auth_credentials" text NOT NULL,
+	"remember" boolean DEFAULT false,
+	"active" boolean DEFAULT true
+);
+--> statement-breakpoint
+CREATE TABLE "farms" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"account_id" integer NOT NULL,
+	"channel_name" text NOT NULL,
+	"channel_id" text,
+	"profile_image" text,
+	"status" text DEFAULT 'active',
+	"uptime" integer DEFAULT 0,
+	"points_claimed" integer DEFAULT 0,
+	"watch_time" integer DEFAULT 0,
+	"enabled" boolean DEFAULT true,
+	"features" json NOT NULL,
+	"prediction_settings" json NOT NULL,
+	"last_activity" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"timestamp" timestamp DEFAULT now(),
+	"account_id" integer NOT NULL,
+	"account_name" text NOT NULL,
+	"channel_id" text,
+	"channel_name" text NOT NULL,
+	"event" text NOT NULL,
+	"status" text NOT NULL,
+	"details" text
+);
+--> statement-breakpoint
+CREATE TABLE "stats" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"date" timestamp DEFAULT now() NOT NULL,
+	"active_farms" integer DEFAULT 0,
+	"points_claimed" integer DEFAULT 0,
+	"watch_hours" integer DEFAULT 0,
+	"prediction_rate" integer DEFAULT 0,
+	CONSTRAINT "stats_date_unique" UNIQUE("date")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
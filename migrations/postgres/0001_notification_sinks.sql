@@ -0,0 +1,12 @@
+CREATE TABLE "notification_sinks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"type" text DEFAULT 'discord' NOT NULL,
+	"webhook_url" text NOT NULL,
+	"statuses" json NOT NULL,
+	"events" json NOT NULL,
+	"enabled" boolean DEFAULT true,
+	"last_delivery_at" timestamp,
+	"last_delivery_status" text,
+	"last_error" text
+);
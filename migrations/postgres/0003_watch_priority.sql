@@ -0,0 +1,2 @@
+ALTER TABLE "accounts" ADD COLUMN "watch_priority" json DEFAULT '["order","streak","drops","balance"]'::json NOT NULL;--> statement-breakpoint
+ALTER TABLE "farms" ADD COLUMN "priority" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
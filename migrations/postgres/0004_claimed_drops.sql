@@ -0,0 +1,13 @@
+CREATE TABLE "claimed_drops" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"account_id" integer NOT NULL,
+	"campaign_id" text NOT NULL,
+	"campaign_name" text NOT NULL,
+	"game_name" text,
+	"drop_id" text NOT NULL,
+	"drop_name" text NOT NULL,
+	"drop_instance_id" text NOT NULL,
+	"claimed_at" timestamp DEFAULT now(),
+	CONSTRAINT "claimed_drops_drop_instance_id_unique" UNIQUE("drop_instance_id")
+);
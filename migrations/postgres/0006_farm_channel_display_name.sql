@@ -0,0 +1 @@
+ALTER TABLE "farms" ADD COLUMN "channel_display_name" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "farms" ADD COLUMN "schedule" json;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "accounts" ADD COLUMN "auth_error" text;
\ No newline at end of file
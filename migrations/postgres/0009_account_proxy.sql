@@ -0,0 +1 @@
+ALTER TABLE "accounts" ADD COLUMN "proxy" text;
\ No newline at end of file
@@ -0,0 +1,55 @@
+CREATE TABLE `accounts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`username` text NOT NULL,
+	`auth_type` text NOT NULL,
+	`auth_credentials` text NOT NULL,
+	`remember` integer DEFAULT false,
+	`active` integer DEFAULT true
+);
+--> statement-breakpoint
+CREATE TABLE `farms` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`account_id` integer NOT NULL,
+	`channel_name` text NOT NULL,
+	`channel_id` text,
+	`profile_image` text,
+	`status` text DEFAULT 'active',
+	`uptime` integer DEFAULT 0,
+	`points_claimed` integer DEFAULT 0,
+	`watch_time` integer DEFAULT 0,
+	`enabled` integer DEFAULT true,
+	`features` text NOT NULL,
+	`prediction_settings` text NOT NULL,
+	`last_activity` integer
+);
+--> statement-breakpoint
+CREATE TABLE `logs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`timestamp` integer,
+	`account_id` integer NOT NULL,
+	`account_name` text NOT NULL,
+	`channel_id` text,
+	`channel_name` text NOT NULL,
+	`event` text NOT NULL,
+	`status` text NOT NULL,
+	`details` text
+);
+--> statement-breakpoint
+CREATE TABLE `stats` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`date` integer NOT NULL,
+	`active_farms` integer DEFAULT 0,
+	`points_claimed` integer DEFAULT 0,
+	`watch_hours` integer DEFAULT 0,
+	`prediction_rate` integer DEFAULT 0
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `stats_date_unique` ON `stats` (`date`);--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`username` text NOT NULL,
+	`password` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);
\ No newline at end of file
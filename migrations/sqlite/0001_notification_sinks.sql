@@ -0,0 +1,12 @@
+CREATE TABLE `notification_sinks` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`type` text DEFAULT 'discord' NOT NULL,
+	`webhook_url` text NOT NULL,
+	`statuses` text NOT NULL,
+	`events` text NOT NULL,
+	`enabled` integer DEFAULT true,
+	`last_delivery_at` integer,
+	`last_delivery_status` text,
+	`last_error` text
+);
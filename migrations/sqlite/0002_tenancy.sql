@@ -0,0 +1,11 @@
+ALTER TABLE `accounts` ADD `user_id` integer;--> statement-breakpoint
+ALTER TABLE `farms` ADD `user_id` integer;--> statement-breakpoint
+ALTER TABLE `logs` ADD `user_id` integer;--> statement-breakpoint
+ALTER TABLE `notification_sinks` ADD `user_id` integer;--> statement-breakpoint
+ALTER TABLE `users` ADD `role` text DEFAULT 'user' NOT NULL;--> statement-breakpoint
+-- Existing installs: the earliest user becomes the admin and owns the pre-tenancy rows
+UPDATE `users` SET `role` = 'admin' WHERE `id` = (SELECT min(`id`) FROM `users`);--> statement-breakpoint
+UPDATE `accounts` SET `user_id` = (SELECT min(`id`) FROM `users`) WHERE `user_id` IS NULL;--> statement-breakpoint
+UPDATE `farms` SET `user_id` = (SELECT min(`id`) FROM `users`) WHERE `user_id` IS NULL;--> statement-breakpoint
+UPDATE `logs` SET `user_id` = (SELECT min(`id`) FROM `users`) WHERE `user_id` IS NULL;--> statement-breakpoint
+UPDATE `notification_sinks` SET `user_id` = (SELECT min(`id`) FROM `users`) WHERE `user_id` IS NULL;
\ No newline at end of file
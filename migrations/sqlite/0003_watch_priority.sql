@@ -0,0 +1,2 @@
+ALTER TABLE `accounts` ADD `watch_priority` text DEFAULT '["order","streak","drops","balance"]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `farms` ADD `priority` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `claimed_drops` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer,
+	`account_id` integer NOT NULL,
+	`campaign_id` text NOT NULL,
+	`campaign_name` text NOT NULL,
+	`game_name` text,
+	`drop_id` text NOT NULL,
+	`drop_name` text NOT NULL,
+	`drop_instance_id` text NOT NULL,
+	`claimed_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `claimed_drops_drop_instance_id_unique` ON `claimed_drops` (`drop_instance_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `farms` ADD `target_type` text DEFAULT 'channel' NOT NULL;--> statement-breakpoint
+ALTER TABLE `farms` ADD `game_name` text;
\ No newline at end of file
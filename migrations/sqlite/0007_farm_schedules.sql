@@ -0,0 +1 @@
+ALTER TABLE `farms` ADD `schedule` text;
\ No newline at end of file
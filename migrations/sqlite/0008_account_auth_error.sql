@@ -0,0 +1 @@
+ALTER TABLE `accounts` ADD `auth_error` text;
\ No newline at end of file
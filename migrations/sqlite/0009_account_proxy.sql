@@ -0,0 +1 @@
+ALTER TABLE `accounts` ADD `proxy` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `stats` ADD `predictions_resolved` integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE `stats` ADD `predictions_won` integer DEFAULT 0;
\ No newline at end of file
@@ -0,0 +1,9 @@
+import type { IStorage } from "./storage";
+import { toLogEntry, type FarmEventBus } from "./farm-events";
+
+// Writes every farm event to the activity log
+export function subscribeActivityLog(events: FarmEventBus, storage: IStorage): () => void {
+  return events.onEvent(async (event) => {
+    await storage.createLog(toLogEntry(event));
+  });
+}
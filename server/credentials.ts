@@ -0,0 +1,216 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { Account, PublicAccount } from "@shared/schema";
+import { maskProxyUrl } from "./twitch/proxy";
+
+/**
+ * Envelope encryption for Account.authCredentials.
+ *
+ * Each value is encrypted with its own random data key (AES-256-GCM), and
+ * that data key is itself encrypted ("wrapped") with the master key. Rotating
+ * the master key only needs to re-wrap the data keys.
+ *
+ * The master key is read from CREDENTIALS_KEY (base64 or hex, 32 bytes) or
+ * from the file at CREDENTIALS_KEY_FILE. Without either, a key file is
+ * generated at .credentials.key on first use.
+ */
+
+const SEALED_PREFIX = "enc:v1";
+const DEFAULT_KEY_FILE = ".credentials.key";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+export class CredentialsKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CredentialsKeyError";
+  }
+}
+
+export function parseMasterKey(raw: string): Buffer {
+  const value = raw.trim();
+  const key = /^[0-9a-f]{64}$/i.test(value)
+    ? Buffer.from(value, "hex")
+    : Buffer.from(value, "base64");
+
+  if (key.length !== KEY_BYTES) {
+    throw new CredentialsKeyError(`Credentials master key must be ${KEY_BYTES} bytes (base64 or hex encoded)`);
+  }
+  return key;
+}
+
+export function generateMasterKey(): Buffer {
+  return crypto.randomBytes(KEY_BYTES);
+}
+
+export function masterKeyFilePath(): string {
+  return path.resolve(process.env.CREDENTIALS_KEY_FILE || DEFAULT_KEY_FILE);
+}
+
+// Short fingerprint stored with each value to tell which master key wrapped it
+export function masterKeyId(key: Buffer): string {
+  return crypto.createHash("sha256").update(key).digest("hex").slice(0, 8);
+}
+
+let cachedMasterKey: Buffer | undefined;
+
+export function loadMasterKey(): Buffer {
+  if (cachedMasterKey) return cachedMasterKey;
+
+  if (process.env.CREDENTIALS_KEY) {
+    cachedMasterKey = parseMasterKey(process.env.CREDENTIALS_KEY);
+    return cachedMasterKey;
+  }
+
+  const keyFile = masterKeyFilePath();
+  if (fs.existsSync(keyFile)) {
+    cachedMasterKey = parseMasterKey(fs.readFileSync(keyFile, "utf8"));
+    return cachedMasterKey;
+  }
+
+  if (process.env.CREDENTIALS_KEY_FILE) {
+    throw new CredentialsKeyError(`Credentials key file ${keyFile} does not exist`);
+  }
+
+  const key = generateMasterKey();
+  fs.writeFileSync(keyFile, key.toString("base64") + "\n", { mode: 0o600 });
+  console.warn(`Generated a new credentials master key at ${keyFile}; back it up, stored credentials cannot be read without it`);
+  cachedMasterKey = key;
+  return key;
+}
+
+export function isSealed(value: string): boolean {
+  return value.startsWith(`${SEALED_PREFIX}:`);
+}
+
+function encrypt(key: Buffer, plaintext: Buffer): string[] {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64url"));
+}
+
+function decrypt(key: Buffer, [iv, tag, ciphertext]: string[]): Buffer {
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "base64url"));
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]);
+}
+
+interface SealedParts {
+  keyId: string;
+  wrappedKey: string[];
+  payload: string[];
+}
+
+// Format: enc:v1:<keyId>:<wrap iv>:<wrap tag>:<wrapped key>:<iv>:<tag>:<ciphertext>
+function parseSealed(value: string): SealedParts {
+  const parts = value.slice(SEALED_PREFIX.length + 1).split(":");
+  if (parts.length !== 7) {
+    throw new CredentialsKeyError("Malformed encrypted credentials");
+  }
+  return { keyId: parts[0], wrappedKey: parts.slice(1, 4), payload: parts.slice(4) };
+}
+
+function formatSealed({ keyId, wrappedKey, payload }: SealedParts): string {
+  return [SEALED_PREFIX, keyId, ...wrappedKey, ...payload].join(":");
+}
+
+function unwrapDataKey(sealed: SealedParts, masterKey: Buffer): Buffer {
+  if (sealed.keyId !== masterKeyId(masterKey)) {
+    throw new CredentialsKeyError(`Credentials were encrypted with master key ${sealed.keyId}, which is not the configured key`);
+  }
+  return decrypt(masterKey, sealed.wrappedKey);
+}
+
+export function sealCredentials(plaintext: string, masterKey = loadMasterKey()): string {
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  return formatSealed({
+    keyId: masterKeyId(masterKey),
+    wrappedKey: encrypt(masterKey, dataKey),
+    payload: encrypt(dataKey, Buffer.from(plaintext, "utf8")),
+  });
+}
+
+/**
+ * Decrypts a stored credentials value. Rows written before encryption was
+ * introduced are still plain text and are returned unchanged.
+ */
+export function openCredentials(value: string, masterKey = loadMasterKey()): string {
+  if (!isSealed(value)) return value;
+
+  const sealed = parseSealed(value);
+  const dataKey = unwrapDataKey(sealed, masterKey);
+  return decrypt(dataKey, sealed.payload).toString("utf8");
+}
+
+/**
+ * Moves a stored value to a new master key. Sealed values only have their
+ * data key re-wrapped; legacy plain text values are sealed from scratch.
+ */
+export function rewrapCredentials(value: string, oldKey: Buffer, newKey: Buffer): string {
+  if (!isSealed(value)) return sealCredentials(value, newKey);
+
+  const sealed = parseSealed(value);
+  if (sealed.keyId === masterKeyId(newKey)) return value;
+
+  const dataKey = unwrapDataKey(sealed, oldKey);
+  return formatSealed({
+    keyId: masterKeyId(newKey),
+    wrappedKey: encrypt(newKey, dataKey),
+    payload: sealed.payload,
+  });
+}
+
+/**
+ * Used by the storage backends before persisting: encrypts authCredentials
+ * when present and not already encrypted.
+ */
+export function sealAccountCredentials<T extends { authCredentials?: string }>(account: T): T {
+  if (account.authCredentials === undefined || isSealed(account.authCredentials)) {
+    return account;
+  }
+  return { ...account, authCredentials: sealCredentials(account.authCredentials) };
+}
+
+/**
+ * The only way to read an account's Twitch credentials in plain text. Meant
+ * for server-side code that talks to Twitch; never send the result to a client.
+ */
+export function decryptAccountCredentials(account: Pick<Account, "authCredentials">): string {
+  return openCredentials(account.authCredentials);
+}
+
+/**
+ * Extracts the Twitch OAuth token from stored credentials: either the token
+ * itself or the auth-token value of a browser cookie string.
+ */
+export function parseAuthToken(authType: string, credentials: string): string {
+  if (authType === "oauth") {
+    return credentials.trim().replace(/^oauth:/i, "");
+  }
+  const match = credentials.match(/(?:^|;\s*)auth-token=([^;]+)/);
+  return match ? match[1].trim() : "";
+}
+
+export function toPublicAccount(account: Account): PublicAccount {
+  const { authCredentials, ...rest } = account;
+
+  let token = "";
+  try {
+    token = parseAuthToken(account.authType, openCredentials(authCredentials));
+  } catch {
+    // Unreadable with the configured master key; reported as invalid
+  }
+
+  return {
+    ...rest,
+    // The proxy password is write-only too
+    proxy: rest.proxy && maskProxyUrl(rest.proxy),
+    credentials: {
+      authType: account.authType,
+      last4: token.length >= 4 ? token.slice(-4) : null,
+      valid: token.length > 0,
+    },
+  };
+}
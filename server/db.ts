@@ -0,0 +1,13 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Any Drizzle Postgres client bound to the shared schema; node-postgres in
+// production, an in-process stand-in when testing
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function connectDatabase(connectionString: string): Database {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
@@ -1,9 +1,9 @@
-
 import { Log } from "@shared/schema";
 
-const DISCORD_WEBHOOK = "https://discord.com/api/webhooks/1365508833815953518/i6QoxKXSD75Yp-F1zmeVEga1K_DKt3J4xAOdMe_TGWXjWPmBkAbhCB9l4dyfoQtC7Yl8";
+// The parts of a log entry that are sent to Discord
+export type LogMessage = Pick<Log, "userId" | "channelName" | "event" | "status"> & { timestamp?: Date | null };
 
-export async function sendDiscordLog(log: Log) {
+export function buildDiscordPayload(log: LogMessage) {
   // Only log public information
   const embed = {
     title: "Channel Activity",
@@ -21,18 +21,18 @@ export async function sendDiscordLog(log: Log) {
         inline: true
       }
     ],
-    timestamp: new Date().toISOString()
+    timestamp: (log.timestamp ?? new Date()).toISOString()
   };
 
-  try {
-    await fetch(DISCORD_WEBHOOK, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ embeds: [embed] })
-    });
-  } catch (error) {
-    console.error('Failed to send Discord webhook:', error);
-  }
+  return { embeds: [embed] };
+}
+
+export async function postDiscordWebhook(webhookUrl: string, log: LogMessage): Promise<Response> {
+  return fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(buildDiscordPayload(log))
+  });
 }
 
 function getColorForStatus(status: string): number {
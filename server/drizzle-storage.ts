@@ -0,0 +1,23 @@
+import type { Farm, FarmChannel, InsertFarm, Owned } from "@shared/schema";
+
+// What the SQL backends share besides their queries, which each writes against
+// its own Drizzle client so the checker sees what the database will run
+
+// Logs kept by every backend; older entries are trimmed as new ones arrive
+export const LOG_LIMIT = 1000;
+
+// The row a new farm starts as
+export function newFarmValues(insertFarm: InsertFarm & Owned & Partial<FarmChannel>) {
+  return {
+    ...insertFarm,
+    channelId: insertFarm.channelId ?? "",
+    channelDisplayName: insertFarm.channelDisplayName ?? null,
+    profileImage: insertFarm.profileImage ?? "",
+    status: "active",
+    uptime: 0,
+    pointsClaimed: 0,
+    watchTime: 0,
+    enabled: true,
+    lastActivity: new Date()
+  } satisfies Partial<Farm>;
+}
@@ -0,0 +1,207 @@
+import type { Account } from "@shared/schema";
+import { accountSource, farmEvents, type FarmEventBus } from "./farm-events";
+import { storage, type IStorage } from "./storage";
+import {
+  createTwitchClient,
+  TwitchAuthError,
+  type DropCampaign,
+  type DropCampaignProgress,
+  type DropProgress,
+  type TwitchClient,
+  type TwitchClientFactory
+} from "./twitch/client";
+
+/**
+ * Tracks drop campaigns for every active account with at least one enabled
+ * farm that has claimDrops on. Each poll fetches the account's inventory
+ * (campaigns it has started, with per-drop minutes watched) and the
+ * campaigns Twitch currently lists, claims every drop that is complete, and
+ * records it in claimed_drops. Drop minutes accrue from the farm engine's
+ * watch-time heartbeats; this only observes and claims.
+ *
+ * The latest snapshot per account is kept in memory for the Drops page.
+ */
+
+const DEFAULT_POLL_INTERVAL_MS = 5 * 60_000;
+
+export interface DropsTrackerOptions {
+  pollIntervalMs?: number;
+  // Where claims and failures are published; defaults to the shared bus
+  events?: FarmEventBus;
+}
+
+export interface AccountDrops {
+  accountId: number;
+  accountName: string;
+  userId: number | null;
+  updatedAt: Date;
+  inProgress: DropCampaignProgress[];
+  // Running or upcoming campaigns the account hasn't started
+  available: DropCampaign[];
+  // Set when the last poll failed; the previous campaigns are kept
+  error: string | null;
+}
+
+export class DropsTracker {
+  private snapshots = new Map<number, AccountDrops>();
+  // Drop instances whose claim failed, so each failure is logged once
+  private failedClaims = new Set<string>();
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+  private pollIntervalMs: number;
+  private events: FarmEventBus;
+
+  constructor(
+    private storage: IStorage,
+    private clientFactory: TwitchClientFactory = createTwitchClient,
+    options: DropsTrackerOptions = {}
+  ) {
+    this.pollIntervalMs = options.pollIntervalMs
+      ?? (Number(process.env.DROPS_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS);
+    this.events = options.events ?? farmEvents;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.runPoll(), this.pollIntervalMs);
+    this.runPoll();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // Latest snapshots, optionally only for one dashboard user's accounts
+  getSnapshots(ownerId?: number): AccountDrops[] {
+    return Array.from(this.snapshots.values())
+      .filter((snapshot) => ownerId === undefined || snapshot.userId === ownerId)
+      .sort((a, b) => a.accountId - b.accountId);
+  }
+
+  /**
+   * Polls every tracked account now. Concurrent callers share the poll in
+   * progress rather than hitting Twitch twice.
+   */
+  poll(): Promise<void> {
+    if (!this.polling) {
+      this.polling = this.pollAccounts().finally(() => {
+        this.polling = undefined;
+      });
+    }
+    return this.polling;
+  }
+
+  private runPoll(): void {
+    this.poll().catch((error) => {
+      console.error("Drops poll failed:", error);
+    });
+  }
+
+  private async pollAccounts(): Promise<void> {
+    const [accounts, farms] = await Promise.all([this.storage.getAccounts(), this.storage.getFarms()]);
+    const tracked = accounts.filter((account) => account.active !== false && farms.some((farm) =>
+      farm.accountId === account.id && farm.enabled !== false && farm.features.claimDrops
+    ));
+
+    // Forget accounts that stopped farming drops or were deleted
+    for (const accountId of Array.from(this.snapshots.keys())) {
+      if (!tracked.some((account) => account.id === accountId)) {
+        this.snapshots.delete(accountId);
+      }
+    }
+
+    for (const account of tracked) {
+      await this.pollAccount(account);
+    }
+  }
+
+  private async pollAccount(account: Account): Promise<void> {
+    const previous = this.snapshots.get(account.id);
+    const snapshot: AccountDrops = {
+      accountId: account.id,
+      accountName: account.name,
+      userId: account.userId,
+      updatedAt: new Date(),
+      inProgress: previous?.inProgress ?? [],
+      available: previous?.available ?? [],
+      error: null,
+    };
+
+    try {
+      const client = this.clientFactory(account);
+      const [inProgress, campaigns] = await Promise.all([client.getDropsInventory(), client.getDropCampaigns()]);
+
+      for (const campaign of inProgress) {
+        for (const drop of campaign.drops) {
+          if (drop.dropInstanceId && !drop.claimed) {
+            drop.claimed = await this.claim(client, account, campaign, drop);
+          }
+        }
+      }
+
+      snapshot.inProgress = inProgress;
+      snapshot.available = campaigns.filter((campaign) =>
+        campaign.status !== "EXPIRED" && !inProgress.some((started) => started.id === campaign.id)
+      );
+    } catch (error) {
+      snapshot.error = error instanceof Error ? error.message : String(error);
+      if (!previous?.error) {
+        await this.events.publish({
+          type: "drops-unavailable",
+          source: accountSource(account),
+          error: snapshot.error,
+          auth: error instanceof TwitchAuthError,
+        });
+      }
+    }
+
+    this.snapshots.set(account.id, snapshot);
+  }
+
+  // Claims one completed drop and records it; returns whether it is now claimed
+  private async claim(
+    client: TwitchClient,
+    account: Account,
+    campaign: DropCampaignProgress,
+    drop: DropProgress
+  ): Promise<boolean> {
+    const dropInstanceId = drop.dropInstanceId!;
+    try {
+      await client.claimDrop(dropInstanceId);
+    } catch (error) {
+      if (!this.failedClaims.has(dropInstanceId)) {
+        this.failedClaims.add(dropInstanceId);
+        await this.events.publish({
+          type: "drop-claim-failed",
+          source: accountSource(account),
+          dropName: drop.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return false;
+    }
+    this.failedClaims.delete(dropInstanceId);
+
+    await this.storage.createClaimedDrop({
+      userId: account.userId,
+      accountId: account.id,
+      campaignId: campaign.id,
+      campaignName: campaign.name,
+      gameName: campaign.gameName,
+      dropId: drop.id,
+      dropName: drop.name,
+      dropInstanceId,
+    });
+    await this.events.publish({
+      type: "drop-claimed",
+      source: accountSource(account),
+      dropName: drop.name,
+      campaignName: campaign.name,
+      gameName: campaign.gameName,
+    });
+    return true;
+  }
+}
+
+export const dropsTracker = new DropsTracker(storage);
@@ -0,0 +1,282 @@
+import { after, afterEach, before, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { defaultPredictionSettings, type Account, type Farm, type PredictionSettings } from "@shared/schema";
+import { generateMasterKey } from "./credentials";
+import { FarmEngine } from "./farm-engine";
+import { FarmEventBus, type FarmEvent } from "./farm-events";
+import { MemStorage } from "./storage";
+import { sleep, waitFor, waitForIO } from "./test-helpers";
+import { GqlTwitchClient, type TwitchChannel, type TwitchClient } from "./twitch/client";
+import { startMockTwitchServer, type MockTwitchState } from "./twitch/mock-server";
+import { PubSubPool, pubsubTopics, type PubSubEvent } from "./twitch/pubsub";
+import { RateLimiter } from "./twitch/rate-limiter";
+import { TwitchTransport, transportConfigFromEnv } from "./twitch/transport";
+
+// Accounts seal their credentials with the master key; keep it in memory
+process.env.CREDENTIALS_KEY ??= generateMasterKey().toString("base64");
+
+async function createFarm(storage: MemStorage, account: Account, channel: Pick<TwitchChannel, "id" | "login">, predictionSettings: Partial<PredictionSettings> = {}): Promise<Farm> {
+  return storage.createFarm({
+    userId: null,
+    accountId: account.id,
+    targetType: "channel",
+    gameName: null,
+    channelName: channel.login,
+    channelId: channel.id,
+    features: { claimPoints: true, watchTime: true, predictions: true, claimDrops: false },
+    predictionSettings: { ...defaultPredictionSettings, ...predictionSettings },
+    schedule: null,
+  });
+}
+
+function recordEvents(events: FarmEventBus): FarmEvent[] {
+  const published: FarmEvent[] = [];
+  events.onEvent((event) => {
+    published.push(event);
+  });
+  return published;
+}
+
+describe("watch time", () => {
+  const channel: TwitchChannel = {
+    id: "100",
+    login: "streamer",
+    displayName: "Streamer",
+    profileImage: "",
+    live: true,
+    broadcastId: "b1",
+    title: "Live",
+    category: "Game",
+  };
+
+  let now: number;
+  let storage: MemStorage;
+  let events: FarmEventBus;
+  let engine: FarmEngine;
+
+  function fakeClient(sendMinuteWatched: TwitchClient["sendMinuteWatched"]): TwitchClient {
+    return {
+      getChannel: async () => channel,
+      getChannelById: async () => channel,
+      getDropsStreams: async () => [],
+      getChannelPointsContext: async () => ({ channelId: channel.id, balance: 1000, availableClaimId: null }),
+      claimBonus: async () => 1000,
+      makePrediction: async () => {},
+      getDropsInventory: async () => [],
+      getDropCampaigns: async () => [],
+      claimDrop: async () => {},
+      sendMinuteWatched,
+      getPubSubAuth: async () => ({ userId: "1", authToken: "token", proxy: null }),
+      getFollowedChannels: async () => [],
+    };
+  }
+
+  // Starts a farm and returns once its first tick, at zero elapsed time, is done
+  async function startFarm(sendMinuteWatched: TwitchClient["sendMinuteWatched"]): Promise<Farm> {
+    const heartbeat = mock.fn(sendMinuteWatched);
+    engine = new FarmEngine(storage, () => fakeClient(heartbeat), { tickIntervalMs: 60 * 60_000, events });
+    const account = await storage.createAccount({ userId: null, name: "A", username: "a", authType: "oauth", authCredentials: "token", remember: true, proxy: null });
+    const farm = await createFarm(storage, account, channel);
+    await engine.syncFarm(farm.id);
+    await waitFor(() => heartbeat.mock.callCount() === 1);
+    await sleep(10);
+    return farm;
+  }
+
+  beforeEach(() => {
+    now = Date.now();
+    mock.method(Date, "now", () => now);
+    storage = new MemStorage();
+    events = new FarmEventBus();
+  });
+
+  afterEach(() => {
+    engine.stop();
+    mock.restoreAll();
+  });
+
+  test("is credited for an accepted heartbeat", async () => {
+    const farm = await startFarm(async () => true);
+
+    now += 60_000;
+    await engine.tick(farm.id);
+
+    assert.equal((await storage.getFarm(farm.id))?.watchTime, 60);
+  });
+
+  test("is not credited when Twitch doesn't accept the heartbeat", async () => {
+    const published = recordEvents(events);
+    const farm = await startFarm(async () => false);
+
+    now += 60_000;
+    await engine.tick(farm.id);
+
+    assert.equal((await storage.getFarm(farm.id))?.watchTime, 0);
+    assert.equal(published.filter((event) => event.type === "heartbeat-failed").length, 1);
+  });
+
+  test("is not credited when the heartbeat fails", async () => {
+    const farm = await startFarm(async () => {
+      throw new Error("socket hang up");
+    });
+
+    now += 60_000;
+    await engine.tick(farm.id);
+
+    const stored = await storage.getFarm(farm.id);
+    assert.equal(stored?.watchTime, 0);
+    assert.equal(stored?.uptime, 60);
+  });
+});
+
+// The engine schedules bets with setTimeout; once a farm is running, these
+// tests mock it and Date so bet timing is exact instead of slept for
+describe("predictions", () => {
+  const login = "predictor";
+
+  let server: Server;
+  let state: MockTwitchState;
+  let pubsub: PubSubPool;
+  let storage: MemStorage;
+  let events: FarmEventBus;
+  let engine: FarmEngine;
+  let makePrediction: ReturnType<typeof mock.fn<TwitchClient["makePrediction"]>>;
+  let balance: number | null;
+  // PubSub events, seen after the engine has seen them
+  let received: PubSubEvent[];
+
+  before(async () => {
+    ({ server, state } = await startMockTwitchServer(0, { claimIntervalMs: 60 * 60_000 }));
+    state.setLive(login, true);
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  // Starts a farm against the mock server, then mocks the clock; the client's
+  // bets are recorded, and `balance`, when set, replaces the channel points balance
+  async function startFarm(predictionSettings: Partial<PredictionSettings>): Promise<Farm> {
+    const { port } = server.address() as AddressInfo;
+    const config = transportConfigFromEnv({ TWITCH_API_BASE: `http://localhost:${port}` });
+    pubsub = new PubSubPool({ url: config.pubsubUrl });
+    // Every test's account has id 1; a limiter of its own keeps earlier tests'
+    // requests from holding this one's back
+    const limiter = new RateLimiter();
+    engine = new FarmEngine(storage, (account) => {
+      const client = new GqlTwitchClient(new TwitchTransport("token", account.id, null, config, limiter));
+      const getChannelPointsContext = client.getChannelPointsContext.bind(client);
+      client.getChannelPointsContext = async (channelName) => {
+        const context = await getChannelPointsContext(channelName);
+        return balance === null ? context : { ...context, balance };
+      };
+      const claimBonus = client.claimBonus.bind(client);
+      client.claimBonus = async (channelId, claimId) => {
+        const claimed = await claimBonus(channelId, claimId);
+        return balance ?? claimed;
+      };
+      makePrediction = mock.fn(client.makePrediction.bind(client));
+      client.makePrediction = makePrediction;
+      return client;
+    }, { tickIntervalMs: 60 * 60_000, claimJitterMs: [0, 0], pubsub, events });
+    pubsub.onEvent((event) => received.push(event));
+
+    const account = await storage.createAccount({ userId: null, name: "A", username: "a", authType: "oauth", authCredentials: "token", remember: true, proxy: null });
+    const farm = await createFarm(storage, account, state.channel(login), { strategy: "custom", maxPoints: 100, ...predictionSettings });
+    const farmUpdated = mock.method(storage, "updateFarm");
+    await engine.syncFarm(farm.id);
+    // The first tick stores the farm last, after its heartbeat and claim
+    await waitFor(() => farmUpdated.mock.calls.some((call) => "uptime" in call.arguments[1]));
+    await waitFor(() => state.pubsubListeners.get(pubsubTopics.predictionsChannel(state.channel(login).id)) === 1);
+    mock.timers.enable({ apis: ["setTimeout", "Date"], now: Date.now() });
+    return farm;
+  }
+
+  // Lets callbacks queued by I/O or a timer tick run
+  const nextTurn = () => new Promise((resolve) => setImmediate(resolve));
+
+  // Waits until the engine has handled the prediction's update with this status
+  async function predictionUpdate(predictionId: string, status: string): Promise<void> {
+    await waitForIO(() => received.some((event) =>
+      event.type === "prediction" && event.prediction.id === predictionId && event.prediction.status === status
+    ));
+    await nextTurn();
+  }
+
+  function betsOn(predictionId: string) {
+    return Object.values(state.predictions.get(predictionId)!.bets);
+  }
+
+  beforeEach(() => {
+    storage = new MemStorage();
+    events = new FarmEventBus();
+    balance = null;
+    received = [];
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+    engine.stop();
+    pubsub.close();
+  });
+
+  test("bets secondsBeforeLock before the window locks", async () => {
+    const published = recordEvents(events);
+    await startFarm({ secondsBeforeLock: 1 });
+
+    const prediction = state.startPrediction(login, "Win?", [
+      { title: "Yes", totalPoints: 5000, totalUsers: 50 },
+      { title: "No", totalPoints: 1000, totalUsers: 10 },
+    ], 3);
+    await predictionUpdate(prediction.id, "ACTIVE");
+
+    mock.timers.tick(1999);
+    await nextTurn();
+    assert.equal(makePrediction.mock.callCount(), 0);
+
+    mock.timers.tick(1);
+    await waitForIO(() => makePrediction.mock.callCount() === 1);
+    assert.equal(Date.now(), Date.parse(prediction.createdAt) + 2000);
+
+    // The custom strategy takes the outcome with the best return
+    await waitForIO(() => published.some((event) => event.type === "prediction-placed"));
+    assert.deepEqual(betsOn(prediction.id), [{ outcomeId: prediction.outcomes[1].id, points: 100 }]);
+
+    state.resolvePrediction(prediction.id, prediction.outcomes[1].id);
+    await waitForIO(() => published.some((event) => event.type === "prediction-resolved"));
+    const resolved = published.find((event) => event.type === "prediction-resolved");
+    assert.deepEqual(resolved && { won: resolved.won, payout: resolved.payout }, { won: true, payout: 554 });
+  });
+
+  test("doesn't bet once the prediction has locked", async () => {
+    await startFarm({ secondsBeforeLock: 1 });
+
+    const prediction = state.startPrediction(login, "Locked early", ["Yes", "No"], 2);
+    await predictionUpdate(prediction.id, "ACTIVE");
+    mock.timers.tick(300);
+    state.lockPrediction(prediction.id);
+    await predictionUpdate(prediction.id, "LOCKED");
+    mock.timers.tick(2000);
+    await nextTurn();
+
+    assert.equal(makePrediction.mock.callCount(), 0);
+    assert.deepEqual(betsOn(prediction.id), []);
+  });
+
+  test("doesn't bet with fewer than the minimum points", async () => {
+    balance = 5;
+    await startFarm({ secondsBeforeLock: 1 });
+
+    const prediction = state.startPrediction(login, "Too poor", ["Yes", "No"], 2);
+    await predictionUpdate(prediction.id, "ACTIVE");
+    mock.timers.tick(1000);
+    await nextTurn();
+
+    assert.equal(makePrediction.mock.callCount(), 0);
+    assert.deepEqual(betsOn(prediction.id), []);
+  });
+});
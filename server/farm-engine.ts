@@ -0,0 +1,1001 @@
+import {
+  defaultWatchPriority,
+  type Farm,
+  type WatchPriorityCriterion,
+  type WatchState
+} from "@shared/schema";
+import {
+  calculatePotentialWinnings,
+  determineBestPredictionOutcome,
+  MIN_PREDICTION_POINTS,
+  resolvedPayout
+} from "@shared/predictions";
+import { isWithinSchedule, nextWindowStart } from "@shared/schedule";
+import { storage, type IStorage } from "./storage";
+import {
+  accountSource,
+  farmEvents,
+  farmSource,
+  type FarmEventBody,
+  type FarmEventBus
+} from "./farm-events";
+import {
+  createTwitchClient,
+  TwitchApiError,
+  TwitchAuthError,
+  type TwitchChannel,
+  type TwitchClient,
+  type TwitchClientFactory
+} from "./twitch/client";
+import { PubSubPool, pubsubTopics, type PubSubEvent, type PubSubPrediction } from "./twitch/pubsub";
+
+/**
+ * Runs one worker per enabled farm. Each tick checks the farm's channel,
+ * credits uptime and watch time, claims bonus points and updates the farm's
+ * status; PubSub, when available, reacts to claims, stream changes and
+ * predictions between ticks. Everything that happens is published on the
+ * FarmEventBus.
+ */
+
+// active: live and being farmed; offline: not broadcasting, nothing is sent;
+// warning: the last tick failed and is retried; error: repeated or
+// unrecoverable failures; scheduled: outside the farm's schedule
+export type FarmStatus = "active" | "warning" | "error" | "offline" | "scheduled";
+
+const DEFAULT_TICK_INTERVAL_MS = 60_000;
+const DEFAULT_CLAIM_JITTER_MS: [number, number] = [2_000, 10_000];
+// Consecutive failed ticks before a warning becomes an error
+const ERROR_THRESHOLD = 3;
+// Twitch credits at most one minute of watch time per heartbeat
+const HEARTBEAT_CREDIT_SECONDS = 60;
+// Most ticks skipped between checks of an offline channel, and of a failing one
+const MAX_OFFLINE_SKIP_TICKS = 9;
+const MAX_ERROR_SKIP_TICKS = 15;
+// Consecutive auth failures across an account's farms before it is paused
+const AUTH_FAILURE_LIMIT = 3;
+const MAX_WATCHED_CHANNELS = 2;
+// A streak counts as pending until PubSub reports it or this much of the
+// broadcast has been watched
+const STREAK_WATCH_SECONDS = 15 * 60;
+// How often game farms compare the game's campaigns with the account's drops
+const DROPS_CHECK_INTERVAL_MS = 5 * 60_000;
+
+export interface FarmEngineOptions {
+  tickIntervalMs?: number;
+  // Random delay range before claiming a bonus
+  claimJitterMs?: [number, number];
+  // Realtime events; without it the engine relies on polling alone
+  pubsub?: PubSubPool;
+  // Where farm events are published; defaults to the shared bus
+  events?: FarmEventBus;
+}
+
+interface FarmWorker {
+  farmId: number;
+  timer: NodeJS.Timeout;
+  client?: TwitchClient;
+  lastTickAt: number;
+  failures: number;
+  busy: boolean;
+  // Offline backoff: consecutive offline checks and ticks left to skip
+  offlineChecks: number;
+  skipTicks: number;
+  heartbeatFailures: number;
+  // PubSub topics the worker listens to, and the ids they were built from
+  topics: string[];
+  channelId?: string;
+  twitchUserId?: string;
+  // Last broadcast seen live, and the one PubSub last reported as ended
+  broadcastId?: string | null;
+  endedBroadcastId?: string | null;
+  // Watch scheduling inputs, refreshed every tick
+  farm?: Farm;
+  watchPriority: WatchPriorityCriterion[];
+  live: boolean;
+  balance?: number;
+  broadcastWatchSeconds: number;
+  // Broadcast the watch streak was last earned on
+  streakBroadcastId?: string | null;
+  watchState: WatchState | null;
+  // Game farms: when the game's campaigns were last checked for completion
+  dropsCheckedAt: number;
+  // Open predictions on the channel, by id
+  predictions: Map<string, TrackedPrediction>;
+}
+
+interface TrackedPrediction {
+  // Latest state PubSub reported
+  prediction: PubSubPrediction;
+  // Places the bet shortly before the window closes
+  timer?: NodeJS.Timeout;
+  bet?: { outcomeId: string, outcome: string, points: number };
+}
+
+interface TickResult {
+  status: FarmStatus;
+  channel?: TwitchChannel;
+  error?: string;
+  // The failure already has its own log entry
+  logged?: boolean;
+  // Twitch rejected the account's credentials
+  auth?: boolean;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class FarmEngine {
+  private workers = new Map<number, FarmWorker>();
+  // Consecutive auth failures per account, for the circuit breaker; only a
+  // call Twitch accepts with the account's token resets them
+  private authFailures = new Map<number, number>();
+  private tickIntervalMs: number;
+  private claimJitterMs: [number, number];
+  private pubsub?: PubSubPool;
+  private events: FarmEventBus;
+
+  constructor(
+    private storage: IStorage,
+    private clientFactory: TwitchClientFactory = createTwitchClient,
+    options: FarmEngineOptions = {}
+  ) {
+    this.tickIntervalMs = options.tickIntervalMs
+      ?? (Number(process.env.FARM_TICK_INTERVAL_MS) || DEFAULT_TICK_INTERVAL_MS);
+    this.claimJitterMs = options.claimJitterMs ?? DEFAULT_CLAIM_JITTER_MS;
+    this.pubsub = options.pubsub;
+    this.events = options.events ?? farmEvents;
+    this.pubsub?.onEvent((event) => {
+      this.handlePubSubEvent(event).catch((error) => {
+        console.error(`PubSub ${event.type} event failed:`, error);
+      });
+    });
+  }
+
+  // Starts a worker for every enabled farm on an active account
+  async start(): Promise<number> {
+    const farms = await this.storage.getFarms();
+    for (const farm of farms) {
+      await this.syncFarm(farm.id);
+    }
+    return this.workers.size;
+  }
+
+  stop(): void {
+    for (const farmId of Array.from(this.workers.keys())) {
+      this.stopFarm(farmId);
+    }
+  }
+
+  isRunning(farmId: number): boolean {
+    return this.workers.has(farmId);
+  }
+
+  /**
+   * Starts or stops the farm's worker to match its stored state. Called by
+   * the routes after anything that can change whether a farm should run.
+   */
+  async syncFarm(farmId: number): Promise<void> {
+    const farm = await this.storage.getFarm(farmId);
+    const account = farm && await this.storage.getAccount(farm.accountId);
+
+    if (farm && account && farm.enabled !== false && account.active !== false) {
+      this.startFarm(farm.id);
+    } else {
+      this.stopFarm(farmId);
+    }
+  }
+
+  // Re-evaluates every farm of an account, e.g. after it was paused
+  async syncAccount(accountId: number): Promise<void> {
+    const farms = await this.storage.getFarmsByAccountId(accountId);
+    for (const farm of farms) {
+      await this.syncFarm(farm.id);
+    }
+  }
+
+  // Restarts the account's workers so they reconnect with its current settings
+  async restartAccount(accountId: number): Promise<void> {
+    const farms = await this.storage.getFarmsByAccountId(accountId);
+    farms.forEach((farm) => this.stopFarm(farm.id));
+    await this.syncAccount(accountId);
+  }
+
+  // Forgets the account's auth failures, e.g. once its credentials were replaced
+  resetAuthFailures(accountId: number): void {
+    this.authFailures.delete(accountId);
+  }
+
+  startFarm(farmId: number): void {
+    if (this.workers.has(farmId)) return;
+
+    const worker: FarmWorker = {
+      farmId,
+      timer: setInterval(() => this.runTick(worker), this.tickIntervalMs),
+      lastTickAt: Date.now(),
+      failures: 0,
+      busy: false,
+      offlineChecks: 0,
+      skipTicks: 0,
+      heartbeatFailures: 0,
+      topics: [],
+      watchPriority: defaultWatchPriority,
+      live: false,
+      broadcastWatchSeconds: 0,
+      watchState: null,
+      dropsCheckedAt: 0,
+      predictions: new Map(),
+    };
+    this.workers.set(farmId, worker);
+
+    // Report the channel's state right away instead of after the first interval
+    this.runTick(worker);
+  }
+
+  stopFarm(farmId: number): void {
+    const worker = this.workers.get(farmId);
+    if (!worker) return;
+
+    clearInterval(worker.timer);
+    worker.topics.forEach((topic) => this.pubsub?.unlisten(topic));
+    this.forgetPredictions(worker);
+    this.workers.delete(farmId);
+  }
+
+  /**
+   * Whether the farm holds one of its account's watch slots ("watching") or
+   * waits for one ("queued"); null while it isn't live or doesn't farm
+   * watch time. Twitch credits MAX_WATCHED_CHANNELS channels per account, so
+   * queued farms move up as watched channels go offline.
+   */
+  watchState(farmId: number): WatchState | null {
+    const worker = this.workers.get(farmId);
+    if (!worker?.live || !worker.farm?.features.watchTime) return null;
+
+    const watching = this.rankWatchCandidates(worker.farm.accountId, worker.watchPriority)
+      .slice(0, MAX_WATCHED_CHANNELS);
+    return watching.includes(worker) ? "watching" : "queued";
+  }
+
+  // Runs one tick immediately; exposed so callers and tests can drive time
+  async tick(farmId: number): Promise<void> {
+    const worker = this.workers.get(farmId);
+    if (worker) {
+      await this.tickWorker(worker);
+    }
+  }
+
+  private runTick(worker: FarmWorker): void {
+    this.tickWorker(worker).catch((error) => {
+      console.error(`Farm ${worker.farmId} tick failed:`, error);
+    });
+  }
+
+  private async tickWorker(worker: FarmWorker): Promise<void> {
+    // Skip overlapping ticks if Twitch or storage is slow
+    if (worker.busy) return;
+    worker.busy = true;
+
+    try {
+      const farm = await this.storage.getFarm(worker.farmId);
+      if (!farm) {
+        this.stopFarm(worker.farmId);
+        return;
+      }
+
+      const now = Date.now();
+      // Capped so a suspended process doesn't credit the whole gap
+      const elapsed = Math.round(Math.min(now - worker.lastTickAt, this.tickIntervalMs * 2) / 1000);
+      worker.lastTickAt = now;
+
+      worker.farm = farm;
+      if (!isWithinSchedule(farm.schedule, new Date(now))) {
+        await this.idleOutsideSchedule(worker, farm);
+        return;
+      }
+      if (farm.status === "scheduled") {
+        await this.publish(farm, { type: "schedule-opened", gameName: farm.gameName });
+      }
+
+      const update: Partial<Farm> = {
+        uptime: (farm.uptime || 0) + elapsed,
+      };
+      // Twitch accepted a call made with the account's token
+      let tokenAccepted = false;
+
+      if (worker.skipTicks > 0) {
+        worker.skipTicks--;
+        await this.storage.updateFarm(farm.id, update);
+        return;
+      }
+
+      let result = await this.checkChannel(worker, farm);
+      // The farm may have been stopped while Twitch was being queried
+      if (!this.isCurrent(worker)) return;
+
+      if (result.channel && worker.topics.length === 0) {
+        await this.listen(worker, result.channel);
+        if (!this.isCurrent(worker)) return;
+      }
+
+      if (farm.targetType === "game" && worker.client && now - worker.dropsCheckedAt >= DROPS_CHECK_INTERVAL_MS) {
+        worker.dropsCheckedAt = now;
+        const finished = await this.gameDropsFinished(worker, farm);
+        if (!this.isCurrent(worker)) return;
+
+        if (finished) {
+          await this.storage.updateFarm(farm.id, { ...update, enabled: false, status: "offline" });
+          await this.publish(farm, { type: "farm-finished", gameName: farm.gameName!, reason: finished });
+          this.stopFarm(farm.id);
+          return;
+        }
+      }
+
+      worker.live = result.status === "active";
+      if (result.status === "offline") {
+        worker.offlineChecks++;
+        worker.skipTicks = Math.min(2 ** (worker.offlineChecks - 1) - 1, MAX_OFFLINE_SKIP_TICKS);
+      } else {
+        worker.offlineChecks = 0;
+      }
+      // Offline channels are checked less often until seen live again. Failed
+      // checks back off too; auth failures go to the circuit breaker instead
+      if (worker.failures > 0 && !result.auth) {
+        worker.skipTicks = Math.min(2 ** (worker.failures - 1) - 1, MAX_ERROR_SKIP_TICKS);
+      }
+
+      if (result.status === "active") {
+        update.lastActivity = new Date();
+        if (farm.features.watchTime && result.channel && await this.updateWatchState(worker, farm) === "watching") {
+          const heartbeat = await this.sendHeartbeat(worker, farm, result.channel);
+          if (!this.isCurrent(worker)) return;
+
+          if (heartbeat === true) {
+            tokenAccepted = true;
+            const credit = Math.min(elapsed, HEARTBEAT_CREDIT_SECONDS);
+            update.watchTime = (farm.watchTime || 0) + credit;
+            worker.broadcastWatchSeconds += credit;
+          } else if (heartbeat !== false) {
+            result = heartbeat;
+          }
+        }
+
+        if (farm.features.claimPoints) {
+          const claim = await this.claimBonus(worker, farm);
+          if (!this.isCurrent(worker)) return;
+
+          if ("status" in claim) {
+            result = claim;
+          } else {
+            tokenAccepted = true;
+            if (claim.points > 0) {
+              update.pointsClaimed = (farm.pointsClaimed || 0) + claim.points;
+            }
+          }
+        }
+      }
+
+      if (result.auth) {
+        if (await this.recordAuthFailure(farm, result.error!)) return;
+      } else if (tokenAccepted) {
+        this.authFailures.delete(farm.accountId);
+      }
+
+      if (result.status !== farm.status) {
+        update.status = result.status;
+        if (!result.logged) {
+          await this.publishTransition(farm, result);
+        }
+      }
+
+      await this.storage.updateFarm(farm.id, update);
+    } finally {
+      worker.busy = false;
+    }
+  }
+
+  // Leaves the farm idle, without uptime, until its next window; checked again
+  // every tick
+  private async idleOutsideSchedule(worker: FarmWorker, farm: Farm): Promise<void> {
+    worker.live = false;
+    worker.watchState = null;
+    worker.offlineChecks = 0;
+    worker.skipTicks = 0;
+    if (farm.status === "scheduled") return;
+
+    await this.storage.updateFarm(farm.id, { status: "scheduled" });
+    await this.publishTransition(farm, { status: "scheduled" });
+  }
+
+  /**
+   * Counts an auth failure against the farm's account and trips the circuit
+   * breaker at AUTH_FAILURE_LIMIT. Returns whether it tripped, in which case
+   * the farm's worker has been stopped.
+   */
+  private async recordAuthFailure(farm: Farm, error: string): Promise<boolean> {
+    const failures = (this.authFailures.get(farm.accountId) ?? 0) + 1;
+    this.authFailures.set(farm.accountId, failures);
+    if (failures < AUTH_FAILURE_LIMIT) return false;
+
+    this.authFailures.delete(farm.accountId);
+    const account = await this.storage.getAccount(farm.accountId);
+    if (!account) return false;
+
+    const farms = await this.storage.getFarmsByAccountId(account.id);
+    await this.storage.updateAccount(account.id, { active: false, authError: error });
+    for (const accountFarm of farms) {
+      this.stopFarm(accountFarm.id);
+      if (accountFarm.enabled !== false) {
+        await this.storage.updateFarm(accountFarm.id, { status: "error" });
+      }
+    }
+
+    await this.events.publish({
+      type: "auth-failed",
+      source: accountSource(account),
+      failures,
+      farmsStopped: farms.filter((f) => f.enabled !== false).length,
+      error,
+    });
+    return true;
+  }
+
+  private isCurrent(worker: FarmWorker): boolean {
+    return this.workers.get(worker.farmId) === worker;
+  }
+
+  // Re-ranks the account's live farms and logs when this one gains or loses a slot
+  private async updateWatchState(worker: FarmWorker, farm: Farm): Promise<WatchState | null> {
+    const account = await this.storage.getAccount(farm.accountId);
+    worker.watchPriority = account?.watchPriority ?? defaultWatchPriority;
+
+    const state = this.watchState(worker.farmId);
+    if (state && worker.watchState && state !== worker.watchState) {
+      const watching = this.rankWatchCandidates(farm.accountId, worker.watchPriority)
+        .slice(0, MAX_WATCHED_CHANNELS)
+        .map((w) => w.farm!.channelName);
+      await this.publish(farm, { type: "watch-state-changed", state, watching });
+    }
+    worker.watchState = state;
+    return state;
+  }
+
+  // Live farms of the account that want watch time, highest priority first
+  private rankWatchCandidates(accountId: number, criteria: WatchPriorityCriterion[]): FarmWorker[] {
+    const compare: Record<WatchPriorityCriterion, (a: FarmWorker, b: FarmWorker) => number> = {
+      order: (a, b) => a.farm!.priority - b.farm!.priority,
+      streak: (a, b) => Number(this.streakPending(b)) - Number(this.streakPending(a)),
+      drops: (a, b) => Number(b.farm!.features.claimDrops) - Number(a.farm!.features.claimDrops),
+      balance: (a, b) => (a.balance ?? Number.MAX_SAFE_INTEGER) - (b.balance ?? Number.MAX_SAFE_INTEGER),
+    };
+
+    return Array.from(this.workers.values())
+      .filter((w) => w.live && w.farm?.accountId === accountId && w.farm.features.watchTime)
+      .sort((a, b) => {
+        for (const criterion of criteria) {
+          const order = compare[criterion](a, b);
+          if (order !== 0) return order;
+        }
+        return a.farmId - b.farmId;
+      });
+  }
+
+  private streakPending(worker: FarmWorker): boolean {
+    return !!worker.broadcastId
+      && worker.streakBroadcastId !== worker.broadcastId
+      && worker.broadcastWatchSeconds < STREAK_WATCH_SECONDS;
+  }
+
+  // Subscribes the worker to its channel's and account's PubSub topics once
+  // the channel is found; polling still covers anything PubSub misses
+  private async listen(worker: FarmWorker, channel: TwitchChannel): Promise<void> {
+    if (!this.pubsub) return;
+
+    let auth: { userId: string, authToken: string, proxy: string | null };
+    try {
+      auth = await worker.client!.getPubSubAuth();
+    } catch (error) {
+      // Polling still covers everything; try again on the next tick
+      console.error(`Farm ${worker.farmId} could not subscribe to PubSub:`, error);
+      return;
+    }
+    if (!this.isCurrent(worker) || worker.topics.length > 0) return;
+
+    worker.channelId = channel.id;
+    worker.twitchUserId = auth.userId;
+    worker.topics = [
+      pubsubTopics.communityPointsUser(auth.userId),
+      pubsubTopics.videoPlayback(channel.id),
+      pubsubTopics.predictionsChannel(channel.id),
+      pubsubTopics.raid(channel.id),
+    ];
+    this.pubsub.listen(worker.topics[0], auth.authToken, auth.proxy);
+    worker.topics.slice(1).forEach((topic) => this.pubsub!.listen(topic, "", auth.proxy));
+  }
+
+  private async handlePubSubEvent(event: PubSubEvent): Promise<void> {
+    const workers = Array.from(this.workers.values());
+
+    switch (event.type) {
+      case "points-earned":
+        for (const worker of workers) {
+          if (worker.twitchUserId === event.userId && worker.channelId === event.channelId) {
+            worker.balance = event.balance;
+            if (event.reason === "WATCH_STREAK") worker.streakBroadcastId = worker.broadcastId;
+          }
+        }
+        break;
+
+      case "claim-available":
+        for (const worker of workers) {
+          if (worker.twitchUserId === event.userId && worker.channelId === event.channelId) {
+            await this.claimNow(worker);
+          }
+        }
+        break;
+
+      case "stream-up":
+        for (const worker of workers.filter((w) => w.channelId === event.channelId)) {
+          // Check now rather than after the offline backoff; if Helix doesn't
+          // list the stream yet the regular ticks pick it up
+          worker.offlineChecks = 0;
+          worker.skipTicks = 0;
+          this.runTick(worker);
+        }
+        break;
+
+      case "stream-down":
+        for (const worker of workers.filter((w) => w.channelId === event.channelId)) {
+          await this.markOffline(worker);
+        }
+        break;
+
+      case "prediction":
+        for (const worker of workers.filter((w) => w.channelId === event.channelId)) {
+          await this.trackPrediction(worker, event.prediction);
+        }
+        break;
+
+      case "raid":
+        for (const worker of workers.filter((w) => w.channelId === event.channelId)) {
+          const farm = await this.storage.getFarm(worker.farmId);
+          if (farm) {
+            await this.publish(farm, { type: "channel-raiding", targetLogin: event.targetLogin, raidId: event.raidId });
+          }
+        }
+        break;
+
+      case "auth-error":
+        for (const worker of workers.filter((w) => w.topics.includes(event.topic))) {
+          const farm = await this.storage.getFarm(worker.farmId);
+          if (farm) {
+            await this.publish(farm, { type: "realtime-unavailable" });
+          }
+        }
+        break;
+    }
+  }
+
+  // Follows a prediction, which only PubSub reports, from creation to result.
+  // The bet waits until secondsBeforeLock before the window closes, when the
+  // odds have mostly settled; see placeBet
+  private async trackPrediction(worker: FarmWorker, prediction: PubSubPrediction): Promise<void> {
+    const tracked = worker.predictions.get(prediction.id) ?? { prediction };
+    tracked.prediction = prediction;
+
+    switch (prediction.status) {
+      case "ACTIVE": {
+        if (tracked.timer || tracked.bet) return;
+        const farm = await this.storage.getFarm(worker.farmId);
+        if (!farm?.features.predictions || !this.isCurrent(worker)) return;
+
+        const locksAt = Date.parse(prediction.createdAt) + prediction.predictionWindowSeconds * 1000;
+        const betAt = locksAt - farm.predictionSettings.secondsBeforeLock * 1000;
+        const delay = Number.isFinite(betAt) ? Math.max(0, betAt - Date.now()) : 0;
+        tracked.timer = setTimeout(() => {
+          this.placeBet(worker, prediction.id).catch((error) => {
+            console.error(`Farm ${worker.farmId} could not bet on prediction ${prediction.id}:`, error);
+          });
+        }, delay);
+        worker.predictions.set(prediction.id, tracked);
+        return;
+      }
+
+      case "RESOLVED": {
+        worker.predictions.delete(prediction.id);
+        if (!tracked.bet) return;
+        const farm = await this.storage.getFarm(worker.farmId);
+        if (!farm) return;
+
+        const { outcomeId, outcome, points } = tracked.bet;
+        const won = prediction.winningOutcomeId === outcomeId;
+        const payout = won ? resolvedPayout(prediction, outcomeId, points) : 0;
+        if (worker.balance !== undefined) worker.balance += payout;
+        await this.publish(farm, { type: "prediction-resolved", title: prediction.title, outcome, points, won, payout });
+        return;
+      }
+
+      case "CANCELED":
+        clearTimeout(tracked.timer);
+        worker.predictions.delete(prediction.id);
+        if (tracked.bet && worker.balance !== undefined) worker.balance += tracked.bet.points;
+        return;
+
+      default:
+        // Locked: too late to bet; a placed bet waits for the result
+        clearTimeout(tracked.timer);
+        tracked.timer = undefined;
+        if (tracked.bet) {
+          worker.predictions.set(prediction.id, tracked);
+        } else {
+          worker.predictions.delete(prediction.id);
+        }
+    }
+  }
+
+  /**
+   * Bets on the outcome the farm's strategy picks, with maxPoints or the
+   * whole balance if that is less. Nothing is bet when the strategy skips
+   * the prediction, the farm isn't farming the live channel, or the
+   * balance is below Twitch's minimum bet.
+   */
+  private async placeBet(worker: FarmWorker, predictionId: string): Promise<void> {
+    const tracked = worker.predictions.get(predictionId);
+    if (!tracked || tracked.bet || !this.isCurrent(worker)) return;
+    tracked.timer = undefined;
+
+    const { prediction } = tracked;
+    const farm = await this.storage.getFarm(worker.farmId);
+    const client = worker.client;
+    if (!farm?.features.predictions || farm.status !== "active" || !client || prediction.status !== "ACTIVE") {
+      worker.predictions.delete(predictionId);
+      return;
+    }
+
+    const { strategy, maxPoints, favorableOddsOnly } = farm.predictionSettings;
+    const outcomeId = determineBestPredictionOutcome(prediction, strategy, favorableOddsOnly);
+    const outcome = prediction.outcomes.find((o) => o.id === outcomeId);
+    if (!outcome) {
+      worker.predictions.delete(predictionId);
+      return;
+    }
+
+    try {
+      const balance = worker.balance ?? (await client.getChannelPointsContext(farm.channelName)).balance;
+      const points = Math.min(maxPoints, balance);
+      if (points < MIN_PREDICTION_POINTS || !this.isCurrent(worker)) {
+        worker.predictions.delete(predictionId);
+        return;
+      }
+
+      await client.makePrediction(prediction.id, outcome.id, points);
+      tracked.bet = { outcomeId: outcome.id, outcome: outcome.title, points };
+      worker.balance = balance - points;
+      await this.publish(farm, {
+        type: "prediction-placed",
+        title: prediction.title,
+        outcome: outcome.title,
+        points,
+        odds: calculatePotentialWinnings(prediction, outcome.id, points) / points,
+      });
+    } catch (error) {
+      worker.predictions.delete(predictionId);
+      if (error instanceof TwitchAuthError) worker.client = undefined;
+      await this.publish(farm, {
+        type: "prediction-failed",
+        title: prediction.title,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private forgetPredictions(worker: FarmWorker): void {
+    worker.predictions.forEach((tracked) => clearTimeout(tracked.timer));
+    worker.predictions.clear();
+  }
+
+  private async markOffline(worker: FarmWorker): Promise<void> {
+    worker.endedBroadcastId = worker.broadcastId;
+    worker.broadcastId = null;
+    worker.live = false;
+
+    // Game farms move on to another stream instead of going offline
+    if (worker.farm?.targetType === "game") {
+      this.runTick(worker);
+      return;
+    }
+
+    const farm = await this.storage.getFarm(worker.farmId);
+    if (!farm || farm.status !== "active" || !this.isCurrent(worker)) return;
+
+    await this.storage.updateFarm(farm.id, { status: "offline" });
+    await this.publishTransition(farm, { status: "offline" });
+  }
+
+  // Claims a bonus announced over PubSub without waiting for the next tick
+  private async claimNow(worker: FarmWorker): Promise<void> {
+    // A running tick claims it itself
+    if (worker.busy || !worker.client) return;
+    worker.busy = true;
+
+    try {
+      const farm = await this.storage.getFarm(worker.farmId);
+      if (!farm || !farm.features.claimPoints || farm.status !== "active") return;
+
+      const claim = await this.claimBonus(worker, farm);
+      if (!this.isCurrent(worker)) return;
+
+      if ("status" in claim) {
+        if (claim.auth && await this.recordAuthFailure(farm, claim.error!)) return;
+        if (claim.status !== farm.status) {
+          await this.storage.updateFarm(farm.id, { status: claim.status });
+        }
+        return;
+      }
+      this.authFailures.delete(farm.accountId);
+      if (claim.points > 0) {
+        const current = await this.storage.getFarm(farm.id);
+        await this.storage.updateFarm(farm.id, { pointsClaimed: (current?.pointsClaimed || 0) + claim.points });
+      }
+    } finally {
+      worker.busy = false;
+    }
+  }
+
+  /**
+   * Claims the channel's bonus chest if one is waiting, after a random
+   * claimJitterMs delay so claims don't land at machine-exact moments.
+   * Returns the points gained (0 when there was nothing to claim) or the
+   * failure to report.
+   */
+  private async claimBonus(worker: FarmWorker, farm: Farm): Promise<{ points: number } | TickResult> {
+    try {
+      const context = await worker.client!.getChannelPointsContext(farm.channelName);
+      worker.balance = context.balance;
+      if (!context.availableClaimId) return { points: 0 };
+
+      const [min, max] = this.claimJitterMs;
+      await sleep(min + Math.random() * (max - min));
+      if (!this.isCurrent(worker)) return { points: 0 };
+
+      const balance = await worker.client!.claimBonus(context.channelId, context.availableClaimId);
+      const points = Math.max(0, balance - context.balance);
+      worker.balance = balance;
+
+      await this.publish(farm, { type: "points-claimed", points, balance });
+      return { points };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const auth = error instanceof TwitchAuthError;
+      if (auth) worker.client = undefined;
+
+      await this.publish(farm, { type: "points-claim-failed", error: message, auth });
+      // Auth failures only become errors once the circuit breaker trips
+      return { status: "warning", error: message, logged: true, auth };
+    }
+  }
+
+  /**
+   * Sends one minute-watched heartbeat. Returns whether it was accepted, or
+   * the failure to report when the credentials were rejected. Other
+   * failures are logged once per streak and only withhold the credit.
+   */
+  private async sendHeartbeat(worker: FarmWorker, farm: Farm, channel: TwitchChannel): Promise<boolean | TickResult> {
+    let error: string;
+    try {
+      if (await worker.client!.sendMinuteWatched(channel)) {
+        worker.heartbeatFailures = 0;
+        return true;
+      }
+      error = "Heartbeat was not accepted";
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      if (err instanceof TwitchAuthError) {
+        worker.client = undefined;
+        await this.publish(farm, { type: "heartbeat-failed", error, auth: true });
+        return { status: "warning", error, logged: true, auth: true };
+      }
+    }
+
+    worker.heartbeatFailures++;
+    if (worker.heartbeatFailures === 1) {
+      await this.publish(farm, { type: "heartbeat-failed", error, auth: false });
+    }
+    return false;
+  }
+
+  private async checkChannel(worker: FarmWorker, farm: Farm): Promise<TickResult> {
+    try {
+      if (!worker.client) {
+        const account = await this.storage.getAccount(farm.accountId);
+        if (!account) {
+          throw new Error(`Account ${farm.accountId} no longer exists`);
+        }
+        worker.client = this.clientFactory(account);
+      }
+
+      // Looked up by id where known, so a renamed channel is still found
+      let channel = farm.channelId
+        ? await worker.client.getChannelById(farm.channelId)
+        : farm.channelName ? await worker.client.getChannel(farm.channelName) : null;
+      if (farm.targetType === "game" && !this.playsGame(worker, farm, channel)) {
+        channel = await this.switchChannel(worker, farm, channel);
+        if (!channel) {
+          worker.failures = 0;
+          return { status: "offline" };
+        }
+      }
+      if (!channel) {
+        throw new TwitchApiError(`Channel ${farm.channelName} does not exist`);
+      }
+      worker.failures = 0;
+      await this.updateChannelIdentity(farm, channel);
+
+      // Helix keeps listing a stream for a while after PubSub reported its end
+      const live = channel.live && channel.broadcastId !== worker.endedBroadcastId;
+      if (live && channel.broadcastId !== worker.broadcastId) {
+        worker.broadcastWatchSeconds = 0;
+      }
+      worker.broadcastId = live ? channel.broadcastId : null;
+      return live
+        ? { status: "active", channel }
+        : { status: "offline", channel: { ...channel, live: false, broadcastId: null } };
+    } catch (error) {
+      worker.failures++;
+      // A new client is built on the next tick in case the account changed
+      worker.client = undefined;
+
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof TwitchAuthError) {
+        // Logged as a warning like other failures; the account's pause is
+        // logged separately if the circuit breaker trips
+        return { status: "warning", error: message, auth: true };
+      }
+      return { status: worker.failures >= ERROR_THRESHOLD ? "error" : "warning", error: message };
+    }
+  }
+
+  // Stores the channel's current login, display name and avatar, and logs
+  // renames; channels are looked up by Twitch user id once it is known
+  private async updateChannelIdentity(farm: Farm, channel: TwitchChannel): Promise<void> {
+    const update = {
+      channelName: channel.login,
+      channelId: channel.id,
+      channelDisplayName: channel.displayName,
+      profileImage: channel.profileImage,
+    };
+    const changed = (Object.keys(update) as (keyof typeof update)[]).some((key) => farm[key] !== update[key]);
+    if (!changed) return;
+
+    const previous = farm.channelName;
+    await this.storage.updateFarm(farm.id, update);
+    Object.assign(farm, update);
+    if (previous && previous.toLowerCase() !== channel.login) {
+      await this.publish(farm, { type: "channel-renamed", previousLogin: previous });
+    }
+  }
+
+  // Whether a game farm's current channel is still a live stream of its game
+  private playsGame(worker: FarmWorker, farm: Farm, channel: TwitchChannel | null): boolean {
+    return !!channel?.live
+      && channel.broadcastId !== worker.endedBroadcastId
+      && channel.category?.toLowerCase() === farm.gameName?.toLowerCase();
+  }
+
+  /**
+   * Game farms have no fixed channel: this moves one to the most-watched
+   * drops-enabled stream of its game other than the current one, e.g. when
+   * that stream went offline or changed category. Returns null, leaving the farm on its
+   * current channel, when there is none.
+   */
+  private async switchChannel(worker: FarmWorker, farm: Farm, current: TwitchChannel | null): Promise<TwitchChannel | null> {
+    const streams = await worker.client!.getDropsStreams(farm.gameName!);
+    const next = streams.find((stream) => stream.login !== current?.login);
+    if (!next || !this.isCurrent(worker)) return null;
+
+    let reason: string;
+    if (!farm.channelName) {
+      reason = `Most-watched ${farm.gameName} stream with drops enabled`;
+    } else if (!current) {
+      reason = `${farm.channelName} no longer exists`;
+    } else if (!current.live || current.broadcastId === worker.endedBroadcastId) {
+      reason = `${farm.channelName} went offline`;
+    } else {
+      reason = `${farm.channelName} switched to ${current.category ?? "another category"}`;
+    }
+
+    // Topics, broadcast state and predictions belong to the previous channel
+    worker.topics.forEach((topic) => this.pubsub?.unlisten(topic));
+    worker.topics = [];
+    this.forgetPredictions(worker);
+    worker.channelId = undefined;
+    worker.broadcastId = undefined;
+    worker.endedBroadcastId = undefined;
+    worker.balance = undefined;
+    worker.streakBroadcastId = undefined;
+    worker.broadcastWatchSeconds = 0;
+
+    const previous = farm.channelName;
+    const update = {
+      channelName: next.login,
+      channelId: next.id,
+      channelDisplayName: next.displayName,
+      profileImage: next.profileImage,
+    };
+    await this.storage.updateFarm(farm.id, update);
+    // The rest of the tick farms the new channel
+    Object.assign(farm, update);
+
+    await this.publish(farm, { type: "channel-switched", previousLogin: previous || null, gameName: farm.gameName!, reason });
+    return next;
+  }
+
+  /**
+   * Returns why a game farm is done, or null while drops are left to earn:
+   * the game has no running or upcoming campaign, or every drop of its
+   * running campaigns has been claimed. Claimed campaigns can drop out of
+   * the inventory, so claims recorded in storage count too.
+   */
+  private async gameDropsFinished(worker: FarmWorker, farm: Farm): Promise<string | null> {
+    try {
+      const game = farm.gameName!.toLowerCase();
+      const campaigns = (await worker.client!.getDropCampaigns())
+        .filter((campaign) => campaign.gameName?.toLowerCase() === game && campaign.status !== "EXPIRED");
+      if (campaigns.length === 0) {
+        return `No running or upcoming drop campaigns for ${farm.gameName}`;
+      }
+      if (campaigns.some((campaign) => campaign.status !== "ACTIVE")) return null;
+
+      const [inventory, claimed] = await Promise.all([
+        worker.client!.getDropsInventory(),
+        this.storage.getClaimedDrops(),
+      ]);
+      const done = campaigns.every((campaign) => {
+        const progress = inventory.find((started) => started.id === campaign.id);
+        return progress
+          ? progress.drops.every((drop) => drop.claimed)
+          : claimed.some((drop) => drop.accountId === farm.accountId && drop.campaignId === campaign.id);
+      });
+      return done ? `All ${farm.gameName} drops claimed` : null;
+    } catch (error) {
+      // Checked again on the next interval
+      console.error(`Farm ${farm.id} could not check ${farm.gameName} drops:`, error);
+      return null;
+    }
+  }
+
+  private async publishTransition(farm: Farm, result: TickResult): Promise<void> {
+    const previousStatus = farm.status;
+    switch (result.status) {
+      case "active":
+        return this.publish(farm, {
+          type: "stream-online",
+          previousStatus,
+          title: result.channel?.title || null,
+          category: result.channel?.category ?? null,
+        });
+      case "offline":
+        return this.publish(farm, {
+          type: "stream-offline",
+          previousStatus,
+          gameName: farm.targetType === "game" ? farm.gameName : null,
+        });
+      case "warning":
+      case "error":
+        return this.publish(farm, { type: "farm-failed", previousStatus, status: result.status, error: result.error ?? null });
+      case "scheduled":
+        return this.publish(farm, {
+          type: "schedule-closed",
+          previousStatus,
+          gameName: farm.gameName,
+          nextWindow: farm.schedule ? nextWindowStart(farm.schedule) : null,
+          timezone: farm.schedule?.timezone ?? null,
+        });
+    }
+  }
+
+  private async publish<E extends FarmEventBody>(farm: Farm, event: E): Promise<void> {
+    const account = await this.storage.getAccount(farm.accountId);
+    await this.events.publish({ ...event, source: farmSource(farm, account?.name || "Unknown") });
+  }
+}
+
+export const farmEngine = new FarmEngine(storage, createTwitchClient, { pubsub: new PubSubPool() });
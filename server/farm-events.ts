@@ -0,0 +1,265 @@
+import type { Account, Farm, FarmTargetType, InsertLog, Owned, WatchState } from "@shared/schema";
+import { formatInTimeZone } from "@shared/schedule";
+
+// Typed events published by the farm engine, drops tracker and routes. The
+// activity log, stats and notification sinks subscribe to farmEvents.
+
+// Who and where the event happened, as shown in the activity log
+export interface FarmEventSource {
+  userId: number | null;
+  accountId: number;
+  accountName: string;
+  // The farm the event is about; null for account-wide events
+  farmId: number | null;
+  channelId: string;
+  channelName: string;
+}
+
+// A farm's stored status before the event
+type PreviousStatus = Farm["status"];
+
+export type FarmEvent = { source: FarmEventSource } & (
+  // Farms
+  | { type: "farm-created", targetType: FarmTargetType, gameName: string | null, features: Farm["features"] }
+  | { type: "farm-deleted", targetType: FarmTargetType, gameName: string | null }
+  // A game farm disabled itself once its drops were done
+  | { type: "farm-finished", gameName: string, reason: string }
+  | { type: "stream-online", previousStatus: PreviousStatus, title: string | null, category: string | null }
+  | { type: "stream-offline", previousStatus: PreviousStatus, gameName: string | null }
+  | { type: "farm-failed", previousStatus: PreviousStatus, status: "warning" | "error", error: string | null }
+  | { type: "schedule-closed", previousStatus: PreviousStatus, gameName: string | null, nextWindow: Date | null, timezone: string | null }
+  | { type: "schedule-opened", gameName: string | null }
+  | { type: "watch-state-changed", state: WatchState, watching: string[] }
+  | { type: "channel-renamed", previousLogin: string }
+  | { type: "channel-switched", previousLogin: string | null, gameName: string, reason: string }
+  | { type: "channel-raiding", targetLogin: string, raidId: string }
+  // PubSub refused the account's token; the farm falls back to polling
+  | { type: "realtime-unavailable" }
+  // Channel points
+  | { type: "points-claimed", points: number, balance: number }
+  | { type: "points-claim-failed", error: string, auth: boolean }
+  | { type: "heartbeat-failed", error: string, auth: boolean }
+  // odds: what a winning bet pays per point staked, e.g. 1.8
+  | { type: "prediction-placed", title: string, outcome: string, points: number, odds: number }
+  | { type: "prediction-failed", title: string, error: string }
+  | { type: "prediction-resolved", title: string, outcome: string, points: number, won: boolean, payout: number }
+  // Drops
+  | { type: "drop-claimed", dropName: string, campaignName: string, gameName: string | null }
+  | { type: "drop-claim-failed", dropName: string, error: string }
+  | { type: "drops-unavailable", error: string, auth: boolean }
+  // Accounts
+  | { type: "auth-failed", failures: number, farmsStopped: number, error: string }
+  | { type: "account-resumed", previousError: string }
+  | { type: "channels-imported", channels: string[] }
+  | { type: "optimization-applied", preset: string, accountsCount: number }
+);
+
+export type FarmEventType = FarmEvent["type"];
+// An event without its source, for publishers that fill the source in
+export type FarmEventBody = FarmEvent extends infer E ? E extends FarmEvent ? Omit<E, "source"> : never : never;
+export type FarmEventOf<T extends FarmEventType> = Extract<FarmEvent, { type: T }>;
+export type FarmEventListener<E extends FarmEvent = FarmEvent> = (event: E) => void | Promise<void>;
+
+export class FarmEventBus {
+  private listeners = new Set<FarmEventListener>();
+
+  // Every event; returns an unsubscribe function
+  onEvent(listener: FarmEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Events of one type
+  on<T extends FarmEventType>(type: T, listener: FarmEventListener<FarmEventOf<T>>): () => void {
+    const matches = (event: FarmEvent): event is FarmEventOf<T> => event.type === type;
+    return this.onEvent((event) => {
+      if (matches(event)) return listener(event);
+    });
+  }
+
+  // Waits for every listener; a failing one is reported and doesn't affect the rest
+  async publish(event: FarmEvent): Promise<void> {
+    await Promise.all(Array.from(this.listeners, async (listener) => {
+      try {
+        await listener(event);
+      } catch (error) {
+        console.error(`Farm event ${event.type} listener failed:`, error);
+      }
+    }));
+  }
+}
+
+export const farmEvents = new FarmEventBus();
+
+// Source for events about one farm
+export function farmSource(farm: Farm, accountName: string): FarmEventSource {
+  return {
+    userId: farm.userId,
+    accountId: farm.accountId,
+    accountName,
+    farmId: farm.id,
+    channelId: farm.channelId || "",
+    channelName: farm.channelName || farm.gameName || "",
+  };
+}
+
+// Source for events about a whole account
+export function accountSource(account: Account): FarmEventSource {
+  return {
+    userId: account.userId,
+    accountId: account.id,
+    accountName: account.name,
+    farmId: null,
+    channelId: "",
+    channelName: "All Channels",
+  };
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+// The activity log's wording, also used by notifications so sink filters match it
+export function describeFarmEvent(event: FarmEvent): { event: string, status: string, details: string } {
+  const channel = event.source.channelName;
+  const changed = (previous: PreviousStatus, next: string) => `Status changed from ${previous} to ${next}`;
+
+  switch (event.type) {
+    case "farm-created":
+      return {
+        event: event.targetType === "game" ? `Started farming ${event.gameName} drops` : `Started farming channel ${channel}`,
+        status: "success",
+        details: `Enabled features: ${Object.entries(event.features)
+          .filter(([_, enabled]) => enabled)
+          .map(([feature]) => feature)
+          .join(', ')}`,
+      };
+    case "farm-deleted":
+      return {
+        event: event.targetType === "game" ? `Stopped farming ${event.gameName} drops` : `Stopped farming channel ${channel}`,
+        status: "info",
+        details: "Farm deleted by user",
+      };
+    case "farm-finished":
+      return { event: `Stopped farming ${event.gameName}`, status: "success", details: event.reason };
+    case "stream-online":
+      return {
+        event: `Channel ${channel} is live, farming`,
+        status: "success",
+        details: event.title
+          ? [event.title, event.category].filter(Boolean).join(" · ")
+          : changed(event.previousStatus, "active"),
+      };
+    case "stream-offline":
+      return {
+        event: event.gameName ? `No live ${event.gameName} streams with drops enabled` : `Channel ${channel} went offline`,
+        status: "info",
+        details: changed(event.previousStatus, "offline"),
+      };
+    case "farm-failed":
+      return {
+        event: event.status === "error" ? `Farming channel ${channel} failed` : `Problem farming channel ${channel}`,
+        status: event.status,
+        details: event.error ?? changed(event.previousStatus, event.status),
+      };
+    case "schedule-closed":
+      return {
+        event: `Schedule window for ${event.gameName || channel} closed`,
+        status: "info",
+        details: event.nextWindow && event.timezone
+          ? `Next window at ${formatInTimeZone(event.nextWindow, event.timezone)}`
+          : changed(event.previousStatus, "scheduled"),
+      };
+    case "schedule-opened":
+      return { event: `Schedule window for ${event.gameName || channel} opened`, status: "info", details: "Farming resumes" };
+    case "watch-state-changed":
+      return {
+        event: event.state === "watching" ? `Now watching ${channel}` : `Queued ${channel}, higher-priority channels are live`,
+        status: "info",
+        details: `Watching: ${event.watching.join(", ")}`,
+      };
+    case "channel-renamed":
+      return { event: `Channel ${event.previousLogin} is now ${channel}`, status: "info", details: "The streamer renamed the channel" };
+    case "channel-switched":
+      return {
+        event: event.previousLogin
+          ? `Switched from ${event.previousLogin} to ${channel} for ${event.gameName}`
+          : `Picked ${channel} to farm ${event.gameName}`,
+        status: "info",
+        details: event.reason,
+      };
+    case "channel-raiding":
+      return { event: `Channel ${channel} is raiding ${event.targetLogin}`, status: "info", details: `Raid ${event.raidId}` };
+    case "realtime-unavailable":
+      return {
+        event: `Realtime events unavailable for ${channel}`,
+        status: "warning",
+        details: "Twitch PubSub rejected the account's token; falling back to polling",
+      };
+    case "points-claimed":
+      return { event: `Claimed ${event.points} bonus points on ${channel}`, status: "success", details: `Balance: ${event.balance}` };
+    case "points-claim-failed":
+      return { event: `Failed to claim bonus points on ${channel}`, status: event.auth ? "error" : "warning", details: event.error };
+    case "heartbeat-failed":
+      return event.auth
+        ? { event: `Watch-time heartbeat failed on ${channel}`, status: "error", details: event.error }
+        : { event: `Watch time not credited on ${channel}`, status: "warning", details: event.error };
+    case "prediction-placed":
+      return {
+        event: `Bet ${event.points} points on "${event.outcome}" on ${channel}`,
+        status: "info",
+        details: `${event.title} · odds 1:${event.odds.toFixed(2)}`,
+      };
+    case "prediction-failed":
+      return { event: `Failed to bet on ${channel}`, status: "warning", details: `${event.title}: ${event.error}` };
+    case "prediction-resolved":
+      return event.won
+        ? { event: `Won ${event.payout} points on ${channel}`, status: "success", details: `${event.title} · bet ${event.points} on "${event.outcome}"` }
+        : { event: `Lost ${event.points} points on ${channel}`, status: "warning", details: `${event.title} · bet on "${event.outcome}"` };
+    case "drop-claimed":
+      return {
+        event: `Claimed drop ${event.dropName}`,
+        status: "success",
+        details: `${event.campaignName}${event.gameName ? ` (${event.gameName})` : ""}`,
+      };
+    case "drop-claim-failed":
+      return { event: `Failed to claim drop ${event.dropName}`, status: "warning", details: event.error };
+    case "drops-unavailable":
+      return {
+        event: `Failed to fetch drop campaigns for ${event.source.accountName}`,
+        status: event.auth ? "error" : "warning",
+        details: event.error,
+      };
+    case "auth-failed":
+      return {
+        event: `Paused account ${event.source.accountName}: Twitch rejected its credentials`,
+        status: "error",
+        details: `Stopped ${plural(event.farmsStopped, "farm")} after ${event.failures} authentication failures; ` +
+          `replace the credentials to resume. Last error: ${event.error}`,
+      };
+    case "account-resumed":
+      return {
+        event: `Resumed account ${event.source.accountName} with new credentials`,
+        status: "success",
+        details: `Paused after: ${event.previousError}`,
+      };
+    case "channels-imported": {
+      const names = event.channels;
+      return {
+        event: `Imported ${plural(names.length, "followed channel")}`,
+        status: "success",
+        details: names.length > 10 ? `${names.slice(0, 10).join(', ')} and ${names.length - 10} more` : names.join(', '),
+      };
+    }
+    case "optimization-applied":
+      return {
+        event: `Optimization Wizard ran with ${event.preset} preset`,
+        status: "success",
+        details: `Applied ${event.preset} optimization to ${event.accountsCount} account(s)`,
+      };
+  }
+}
+
+// The activity log entry for an event
+export function toLogEntry(event: FarmEvent): InsertLog & Owned {
+  const { farmId: _, ...source } = event.source;
+  return { ...source, ...describeFarmEvent(event) };
+}
@@ -1,6 +1,15 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { backfillFarmDefaults, SchemaVersionError } from "./migrate";
+import { redactSecrets } from "./redact";
+import { farmEngine } from "./farm-engine";
+import { dropsTracker } from "./drops";
+import { farmEvents } from "./farm-events";
+import { subscribeActivityLog } from "./activity-log";
+import { subscribeStats } from "./stats";
+import { subscribeNotifications } from "./notifications";
 
 const app = express();
 app.use(express.json());
@@ -22,7 +31,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(redactSecrets(capturedJsonResponse))}`;
       }
 
       if (logLine.length > 80) {
@@ -37,6 +46,29 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  try {
+    await storage.init();
+  } catch (err) {
+    if (err instanceof SchemaVersionError) {
+      log(err.message, "migrate");
+      process.exit(1);
+    }
+    throw err;
+  }
+
+  const backfilled = await backfillFarmDefaults(storage);
+  if (backfilled > 0) {
+    log(`backfilled defaults for ${backfilled} farm(s)`, "migrate");
+  }
+
+  subscribeActivityLog(farmEvents, storage);
+  subscribeStats(farmEvents, storage);
+  subscribeNotifications(farmEvents);
+
+  const running = await farmEngine.start();
+  log(`started ${running} farm worker(s)`, "engine");
+  dropsTracker.start();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,174 @@
+import path from "path";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { readMigrationFiles, type MigrationMeta } from "drizzle-orm/migrator";
+import { migrate as migrateLibsql } from "drizzle-orm/libsql/migrator";
+import { bigint, pgSchema, serial, text } from "drizzle-orm/pg-core";
+import { integer, numeric, sqliteTable, text as sqliteText } from "drizzle-orm/sqlite-core";
+import {
+  defaultFarmFeatures,
+  defaultPredictionSettings,
+  type Farm
+} from "@shared/schema";
+import type { Database } from "./db";
+import type { SqliteDatabase } from "./sqlite";
+import type { IStorage } from "./storage";
+
+// Generated by `npm run db:generate` and checked in alongside the schema
+const POSTGRES_MIGRATIONS = path.resolve("migrations/postgres");
+const SQLITE_MIGRATIONS = path.resolve("migrations/sqlite");
+
+// Bookkeeping tables written by Drizzle's migrator
+const pgMigrations = pgSchema("drizzle").table("__drizzle_migrations", {
+  id: serial("id").primaryKey(),
+  hash: text("hash").notNull(),
+  createdAt: bigint("created_at", { mode: "number" }),
+});
+
+const pgTables = pgSchema("information_schema").table("tables", {
+  tableSchema: text("table_schema"),
+  tableName: text("table_name"),
+});
+
+const sqliteMigrations = sqliteTable("__drizzle_migrations", {
+  id: integer("id").primaryKey(),
+  hash: sqliteText("hash").notNull(),
+  createdAt: numeric("created_at"),
+});
+
+const sqliteMaster = sqliteTable("sqlite_master", {
+  type: sqliteText("type"),
+  name: sqliteText("name"),
+});
+
+export class SchemaVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaVersionError";
+  }
+}
+
+/**
+ * Refuses to continue when the database has been migrated past the newest
+ * migration shipped with this build (e.g. after rolling back a deploy).
+ */
+function assertNotNewerThanCode(migrations: MigrationMeta[], lastApplied: number | undefined) {
+  const latestKnown = migrations[migrations.length - 1]?.folderMillis ?? 0;
+  if (lastApplied !== undefined && lastApplied > latestKnown) {
+    throw new SchemaVersionError(
+      `Database schema (migration ${lastApplied}) is newer than this build ` +
+      `(migration ${latestKnown}). Upgrade the application before starting it.`
+    );
+  }
+}
+
+export async function migratePostgres(db: Database): Promise<void> {
+  const migrations = readMigrationFiles({ migrationsFolder: POSTGRES_MIGRATIONS });
+
+  await db.execute(`CREATE SCHEMA IF NOT EXISTS "drizzle"`);
+  await db.execute(
+    `CREATE TABLE IF NOT EXISTS "drizzle"."__drizzle_migrations" (id SERIAL PRIMARY KEY, hash text NOT NULL, created_at bigint)`
+  );
+
+  const [last] = await db
+    .select()
+    .from(pgMigrations)
+    .orderBy(desc(pgMigrations.createdAt))
+    .limit(1);
+
+  let lastApplied = last?.createdAt ?? undefined;
+  if (last) {
+    assertNotNewerThanCode(migrations, lastApplied);
+  } else {
+    // Databases created with `drizzle-kit push` already have the baseline
+    // tables; record the baseline as applied instead of re-creating them
+    const [existing] = await db
+      .select()
+      .from(pgTables)
+      .where(and(eq(pgTables.tableSchema, "public"), eq(pgTables.tableName, "accounts")));
+    if (existing && migrations[0]) {
+      await db.insert(pgMigrations).values({
+        hash: migrations[0].hash,
+        createdAt: migrations[0].folderMillis,
+      });
+      lastApplied = migrations[0].folderMillis;
+    }
+  }
+
+  // Applies what's newer the way Drizzle's migrator does, but on this client,
+  // which may be node-postgres or an in-process stand-in
+  await db.transaction(async (tx) => {
+    for (const migration of migrations) {
+      if (lastApplied !== undefined && migration.folderMillis <= lastApplied) continue;
+      for (const statement of migration.sql) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.insert(pgMigrations).values({ hash: migration.hash, createdAt: migration.folderMillis });
+    }
+  });
+}
+
+export async function migrateSqlite(db: SqliteDatabase): Promise<void> {
+  const migrations = readMigrationFiles({ migrationsFolder: SQLITE_MIGRATIONS });
+
+  await db.run(
+    `CREATE TABLE IF NOT EXISTS "__drizzle_migrations" (id SERIAL PRIMARY KEY, hash text NOT NULL, created_at numeric)`
+  );
+
+  const [last] = await db
+    .select()
+    .from(sqliteMigrations)
+    .orderBy(desc(sqliteMigrations.createdAt))
+    .limit(1);
+
+  if (last) {
+    assertNotNewerThanCode(migrations, last.createdAt === null ? undefined : Number(last.createdAt));
+  } else {
+    // Data files from before migrations existed already hold the baseline
+    const [existing] = await db
+      .select()
+      .from(sqliteMaster)
+      .where(and(eq(sqliteMaster.type, "table"), eq(sqliteMaster.name, "accounts")));
+    if (existing && migrations[0]) {
+      await db.insert(sqliteMigrations).values({
+        hash: migrations[0].hash,
+        createdAt: String(migrations[0].folderMillis),
+      });
+    }
+  }
+
+  await migrateLibsql(db, { migrationsFolder: SQLITE_MIGRATIONS });
+}
+
+/**
+ * Fills in keys added to the farm JSON columns since a row was written, so
+ * older farms pick up the defaults for new features and prediction options.
+ */
+export async function backfillFarmDefaults(storage: IStorage): Promise<number> {
+  const farms = await storage.getFarms();
+  let updated = 0;
+
+  for (const farm of farms) {
+    const update: Partial<Farm> = {};
+
+    const features = { ...defaultFarmFeatures, ...farm.features };
+    if (hasNewKeys(farm.features, features)) {
+      update.features = features;
+    }
+
+    const predictionSettings = { ...defaultPredictionSettings, ...farm.predictionSettings };
+    if (hasNewKeys(farm.predictionSettings, predictionSettings)) {
+      update.predictionSettings = predictionSettings;
+    }
+
+    if (Object.keys(update).length > 0) {
+      await storage.updateFarm(farm.id, update);
+      updated++;
+    }
+  }
+
+  return updated;
+}
+
+function hasNewKeys(current: object | null, merged: object): boolean {
+  return Object.keys(merged).some((key) => !current || !(key in current));
+}
@@ -0,0 +1,87 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import type { NotificationSink } from "@shared/schema";
+import { deliverToSink, MAX_ATTEMPTS, WEBHOOK_URL_ERROR } from "./notifications";
+import { storage } from "./storage";
+
+const log = { userId: null, channelName: "streamer", event: "Claimed 50 bonus points on streamer", status: "success" };
+
+describe("webhook delivery", () => {
+  let server: http.Server;
+  // When each webhook request arrived
+  let requests: number[];
+  // Requests answered with 429 before one succeeds
+  let rateLimited: number;
+
+  before(async () => {
+    // Stands in for Discord: a retry_after in the body and a much longer Retry-After header
+    server = http.createServer((req, res) => {
+      requests.push(Date.now());
+      req.resume();
+      if (requests.length <= rateLimited) {
+        res.writeHead(429, { "Content-Type": "application/json", "Retry-After": "5" });
+        res.end(JSON.stringify({ message: "You are being rate limited.", retry_after: 0.2 }));
+      } else {
+        res.writeHead(204).end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    process.env.DISCORD_WEBHOOK_BASE = `http://localhost:${(server.address() as AddressInfo).port}/api/webhooks/`;
+  });
+
+  after(() => {
+    server.close();
+    delete process.env.DISCORD_WEBHOOK_BASE;
+  });
+
+  beforeEach(() => {
+    requests = [];
+    rateLimited = 0;
+  });
+
+  function createSink(webhookUrl = `${process.env.DISCORD_WEBHOOK_BASE}1/token`): Promise<NotificationSink> {
+    return storage.createNotificationSink({ name: "Discord", webhookUrl, statuses: ["success"], events: [], enabled: true });
+  }
+
+  test("waits the body's retry_after before retrying", async () => {
+    rateLimited = 2;
+    const sink = await createSink();
+
+    const result = await deliverToSink(sink, log);
+
+    assert.deepEqual(result, { delivered: true, attempts: 3 });
+    for (let i = 1; i < requests.length; i++) {
+      const delay = requests[i] - requests[i - 1];
+      assert.ok(delay >= 190 && delay < 1000, `retried after ${delay}ms`);
+    }
+    const stored = await storage.getNotificationSink(sink.id);
+    assert.equal(stored?.lastDeliveryStatus, "delivered");
+    assert.equal(stored?.lastError, null);
+  });
+
+  test("gives up after MAX_ATTEMPTS rate-limited attempts", async () => {
+    rateLimited = Infinity;
+    const sink = await createSink();
+
+    const result = await deliverToSink(sink, log);
+
+    assert.equal(result.delivered, false);
+    assert.equal(result.attempts, MAX_ATTEMPTS);
+    assert.equal(requests.length, MAX_ATTEMPTS);
+    const stored = await storage.getNotificationSink(sink.id);
+    assert.equal(stored?.lastDeliveryStatus, "failed");
+    assert.equal(stored?.lastError, "Webhook responded with 429 Too Many Requests");
+  });
+
+  test("doesn't post to a URL that isn't a Discord webhook", async () => {
+    const sink = await createSink("http://169.254.169.254/latest/meta-data");
+
+    const result = await deliverToSink(sink, log);
+
+    assert.deepEqual(result, { delivered: false, attempts: 0, error: WEBHOOK_URL_ERROR });
+    assert.equal(requests.length, 0);
+    assert.equal((await storage.getNotificationSink(sink.id))?.lastError, WEBHOOK_URL_ERROR);
+  });
+});
@@ -0,0 +1,178 @@
+import type { NotificationSink } from "@shared/schema";
+import { postDiscordWebhook, type LogMessage } from "./discord-logger";
+import { toLogEntry, type FarmEventBus } from "./farm-events";
+import { storage } from "./storage";
+
+// Give up on a message after this many rate-limited attempts
+export const MAX_ATTEMPTS = 4;
+// Never wait longer than this for a single Discord retry-after
+const MAX_RETRY_DELAY_MS = 60_000;
+const DISCORD_WEBHOOK_PREFIXES = [
+  "https://discord.com/api/webhooks/",
+  "https://discordapp.com/api/webhooks/",
+  "https://ptb.discord.com/api/webhooks/",
+  "https://canary.discord.com/api/webhooks/",
+];
+export const WEBHOOK_URL_ERROR = "Webhook URL must be a Discord webhook (https://discord.com/api/webhooks/...)";
+
+export interface DeliveryResult {
+  delivered: boolean;
+  attempts: number;
+  error?: string;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Deliveries to one sink are sent in order so a rate limit on that webhook
+// delays only its own queue
+const sinkQueues = new Map<number, Promise<unknown>>();
+
+export function sinkMatchesLog(sink: NotificationSink, log: LogMessage): boolean {
+  if (!sink.enabled) return false;
+  if (!sink.statuses.includes(log.status)) return false;
+  if (sink.events.length === 0) return true;
+
+  const event = log.event.toLowerCase();
+  return sink.events.some((keyword) => event.includes(keyword.toLowerCase()));
+}
+
+/**
+ * Discord answers 429 with a retry_after (seconds) in the JSON body and a
+ * Retry-After header; prefer the body, which carries sub-second precision.
+ */
+async function getRetryDelay(res: Response): Promise<number> {
+  let seconds = Number(res.headers.get("retry-after"));
+  try {
+    const body = await res.json();
+    if (typeof body?.retry_after === "number") {
+      seconds = body.retry_after;
+    }
+  } catch {
+    // Not JSON; fall back to the header
+  }
+
+  const delay = Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 1000;
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+// Sinks only post to Discord, so they can't be aimed at internal hosts.
+// DISCORD_WEBHOOK_BASE also allows a local stand-in during development.
+export function isAllowedWebhookUrl(webhookUrl: string, env: NodeJS.ProcessEnv = process.env): boolean {
+  let href: string;
+  try {
+    href = new URL(webhookUrl).href;
+  } catch {
+    return false;
+  }
+
+  const prefixes = [...DISCORD_WEBHOOK_PREFIXES];
+  if (env.DISCORD_WEBHOOK_BASE) {
+    prefixes.push(env.DISCORD_WEBHOOK_BASE.replace(/\/*$/, "/"));
+  }
+  return prefixes.some((prefix) => href.startsWith(prefix));
+}
+
+async function postWithRetry(sink: NotificationSink, log: LogMessage): Promise<DeliveryResult> {
+  // Sinks saved before webhook hosts were restricted
+  if (!isAllowedWebhookUrl(sink.webhookUrl)) {
+    return { delivered: false, attempts: 0, error: WEBHOOK_URL_ERROR };
+  }
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let res: Response;
+    try {
+      res = await postDiscordWebhook(sink.webhookUrl, log);
+    } catch (error) {
+      return { delivered: false, attempts: attempt, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (res.ok) {
+      return { delivered: true, attempts: attempt };
+    }
+
+    if (res.status === 429 && attempt < MAX_ATTEMPTS) {
+      await sleep(await getRetryDelay(res));
+      continue;
+    }
+
+    return { delivered: false, attempts: attempt, error: `Webhook responded with ${res.status} ${res.statusText}`.trim() };
+  }
+
+  return { delivered: false, attempts: MAX_ATTEMPTS, error: "Rate limited" };
+}
+
+/**
+ * Sends one log to one sink and records the outcome on the sink so the UI
+ * can show per-sink delivery status.
+ */
+export function deliverToSink(sink: NotificationSink, log: LogMessage): Promise<DeliveryResult> {
+  const previous = sinkQueues.get(sink.id) ?? Promise.resolve();
+  const delivery = previous.then(async () => {
+    const result = await postWithRetry(sink, log);
+    await storage.updateNotificationSink(sink.id, {
+      lastDeliveryAt: new Date(),
+      lastDeliveryStatus: result.delivered ? "delivered" : "failed",
+      lastError: result.error ?? null,
+    });
+    return result;
+  });
+
+  const settled = delivery.catch(() => undefined);
+  sinkQueues.set(sink.id, settled);
+  settled.then(() => {
+    if (sinkQueues.get(sink.id) === settled) sinkQueues.delete(sink.id);
+  });
+
+  return delivery;
+}
+
+// Sinks receive their owner's logs; sinks owned by an admin receive everyone's
+async function sinkCanSeeLog(sink: NotificationSink, log: LogMessage): Promise<boolean> {
+  if (sink.userId === log.userId) return true;
+  if (sink.userId === null) return false;
+
+  const owner = await storage.getUser(sink.userId);
+  return owner?.role === "admin";
+}
+
+/**
+ * Forwards a newly written log to every sink whose filters match. Runs in the
+ * background; failures are recorded on the sink rather than thrown.
+ */
+export function dispatchLogNotifications(log: LogMessage): void {
+  storage.getNotificationSinks()
+    .then(async (sinks) => {
+      const deliveries: Promise<DeliveryResult>[] = [];
+      for (const sink of sinks) {
+        if (sinkMatchesLog(sink, log) && await sinkCanSeeLog(sink, log)) {
+          deliveries.push(deliverToSink(sink, log));
+        }
+      }
+      await Promise.all(deliveries);
+    })
+    .catch((error) => {
+      console.error('Failed to dispatch notifications:', error);
+    });
+}
+
+// Forwards every farm event to the matching sinks
+export function subscribeNotifications(events: FarmEventBus): () => void {
+  return events.onEvent((event) => {
+    dispatchLogNotifications({ ...toLogEntry(event), userId: event.source.userId, timestamp: new Date() });
+  });
+}
+
+// Webhook URLs embed a token; only the start and last characters are shown
+export function maskWebhookUrl(webhookUrl: string): string {
+  try {
+    const url = new URL(webhookUrl);
+    const tail = webhookUrl.slice(-4);
+    return `${url.origin}/••••${tail}`;
+  } catch {
+    return "••••";
+  }
+}
+
+export function toPublicSink(sink: NotificationSink): NotificationSink {
+  return { ...sink, webhookUrl: maskWebhookUrl(sink.webhookUrl) };
+}
@@ -0,0 +1,42 @@
+/**
+ * Scrubs secrets from values before they are written to logs.
+ */
+
+const REDACTED = "[REDACTED]";
+
+// Compared case-insensitively against object keys at any depth
+const SECRET_FIELDS = new Set([
+  "authcredentials",
+  "password",
+  "token",
+  "accesstoken",
+  "refreshtoken",
+  "authtoken",
+  "auth-token",
+  "cookie",
+  "authorization",
+  "secret",
+  "apikey",
+  "webhookurl",
+]);
+
+export function isSecretField(key: string): boolean {
+  return SECRET_FIELDS.has(key.toLowerCase());
+}
+
+export function redactSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item)) as T;
+  }
+
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        isSecretField(key) ? REDACTED : redactSecrets(field),
+      ])
+    ) as T;
+  }
+
+  return value;
+}
@@ -0,0 +1,69 @@
+/**
+ * Re-encrypts every stored Account credential under a new master key.
+ *
+ *   npm run credentials:rotate
+ *
+ * The current key is loaded the same way the server loads it. The new key is
+ * taken from CREDENTIALS_NEW_KEY, or generated when unset. When the current
+ * key lives in a key file, the file is replaced with the new key (the old one
+ * is kept next to it as .bak); when it comes from CREDENTIALS_KEY the new key
+ * is printed so it can be put in the environment.
+ *
+ * Rows already on the new key are skipped, so an interrupted rotation can be
+ * re-run with the same CREDENTIALS_NEW_KEY.
+ */
+import fs from "fs";
+import {
+  generateMasterKey,
+  loadMasterKey,
+  masterKeyFilePath,
+  masterKeyId,
+  parseMasterKey,
+  rewrapCredentials
+} from "./credentials";
+import { MemStorage, storage } from "./storage";
+
+async function main() {
+  if (storage instanceof MemStorage) {
+    console.error("No persistent storage configured (set DATABASE_URL or SQLITE_PATH); nothing to rotate.");
+    process.exit(1);
+  }
+
+  await storage.init();
+
+  const oldKey = loadMasterKey();
+  const newKey = process.env.CREDENTIALS_NEW_KEY
+    ? parseMasterKey(process.env.CREDENTIALS_NEW_KEY)
+    : generateMasterKey();
+
+  console.log(`Rotating credentials from key ${masterKeyId(oldKey)} to ${masterKeyId(newKey)}`);
+
+  const accounts = await storage.getAccounts();
+  let rotated = 0;
+  for (const account of accounts) {
+    const authCredentials = rewrapCredentials(account.authCredentials, oldKey, newKey);
+    if (authCredentials !== account.authCredentials) {
+      await storage.updateAccount(account.id, { authCredentials });
+      rotated++;
+    }
+  }
+
+  console.log(`Re-encrypted ${rotated} of ${accounts.length} account(s)`);
+
+  if (process.env.CREDENTIALS_KEY) {
+    console.log("Set CREDENTIALS_KEY to the new key before restarting the server:");
+    console.log(newKey.toString("base64"));
+  } else {
+    const keyFile = masterKeyFilePath();
+    fs.copyFileSync(keyFile, `${keyFile}.bak`);
+    fs.writeFileSync(keyFile, newKey.toString("base64") + "\n", { mode: 0o600 });
+    console.log(`Wrote the new key to ${keyFile} (previous key saved as ${keyFile}.bak)`);
+  }
+
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Credential key rotation failed:", err);
+  process.exit(1);
+});
@@ -1,13 +1,35 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { z } from "zod";
 import { 
+  importFollowsSchema,
   insertAccountSchema, 
   insertFarmSchema, 
-  insertLogSchema,
-  insertUserSchema
+  insertNotificationSinkSchema,
+  insertUserSchema,
+  optimizeRequestSchema,
+  replaceCredentialsSchema,
+  updateAccountSchema,
+  updateFarmSchema,
+  updateNotificationSinkSchema,
+  type Account,
+  type Farm,
+  type FarmChannel,
+  type InsertFarm,
+  type UpdateFarm,
+  type Log,
+  type User
 } from "@shared/schema";
+import { toPublicAccount } from "./credentials";
+import { deliverToSink, isAllowedWebhookUrl, toPublicSink, WEBHOOK_URL_ERROR } from "./notifications";
+import { farmEngine } from "./farm-engine";
+import { accountSource, farmEvents, farmSource } from "./farm-events";
+import { predictionRate } from "./stats";
+import { dropsTracker } from "./drops";
+import { createTwitchClient, TwitchAuthError, type FollowedChannel, type TwitchChannel } from "./twitch/client";
+import { checkProxy, maskProxyUrl } from "./twitch/proxy";
+import { twitchRateLimiter } from "./twitch/rate-limiter";
+import { transportConfigFromEnv } from "./twitch/transport";
 import session from "express-session";
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
@@ -26,6 +48,32 @@ const asyncHandler = (fn: (req: Request, res: Response) => Promise<any>) =>
     });
   };
 
+// Maps a failed Twitch lookup made on behalf of an account to a response
+function twitchErrorResponse(res: Response, account: Account, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  return error instanceof TwitchAuthError
+    ? res.status(400).json({ message: `Twitch rejected the credentials of ${account.name}`, error: message })
+    : res.status(502).json({ message: 'Could not reach Twitch', error: message });
+}
+
+// Tries a tunnel to Twitch through the proxy; returns why it failed, or null
+async function proxyProblem(proxy: string): Promise<string | null> {
+  try {
+    await checkProxy(proxy, transportConfigFromEnv().gqlUrl);
+    return null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return `Proxy ${maskProxyUrl(proxy)} can't reach Twitch: ${message}`;
+  }
+}
+
+// Whether one of the farms already farms the channel
+function hasChannelFarm(farms: Farm[], channel: { id: string, login: string }): boolean {
+  return farms.some((farm) => farm.targetType !== "game" && (farm.channelId
+    ? farm.channelId === channel.id
+    : farm.channelName.toLowerCase() === channel.login));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Configure session
   app.use(session({
@@ -68,16 +116,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      // A deleted user ends the session instead of failing every request
+      done(null, user ?? false);
     } catch (err) {
       done(err);
     }
   });
 
-  // Authentication middleware - bypass authentication check
-  const isAuthenticated = (_req: Request, _res: Response, next: Function) => {
-    // Always allow access without checking authentication
-    return next();
+  // Authentication middleware - requires a logged-in passport session
+  const isAuthenticated = (req: Request, res: Response, next: Function) => {
+    if (req.isAuthenticated()) {
+      return next();
+    }
+    res.status(401).json({ message: 'Authentication required' });
+  };
+
+  const currentUser = (req: Request) => req.user as User;
+
+  // Admins see every user's rows; everyone else only their own
+  const ownerScope = (req: Request): number | undefined => {
+    const user = currentUser(req);
+    return user.role === 'admin' ? undefined : user.id;
+  };
+
+  // Rows owned by someone else are reported as not found
+  const canAccess = (req: Request, row: { userId: number | null }) => {
+    const ownerId = ownerScope(req);
+    return ownerId === undefined || row.userId === ownerId;
   };
 
   // Authentication routes
@@ -95,14 +160,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     const hashedPassword = await bcrypt.hash(password, 10);
+    // The first user to register administers the installation
+    const role = (await storage.countUsers()) === 0 ? 'admin' : 'user';
     const user = await storage.createUser({
       username,
-      password: hashedPassword
+      password: hashedPassword,
+      role
     });
 
     res.status(201).json({ 
       message: 'User registered successfully',
-      user: { id: user.id, username: user.username }
+      user: { id: user.id, username: user.username, role: user.role }
     });
   }));
 
@@ -115,7 +183,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (err) return next(err);
         return res.json({ 
           message: 'Login successful',
-          user: { id: user.id, username: user.username }
+          user: { id: user.id, username: user.username, role: user.role }
         });
       });
     })(req, res, next);
@@ -128,20 +196,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  app.get('/api/auth/user', (_req, res) => {
-    // Always return a mock user
+  app.get('/api/auth/user', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not logged in' });
+    }
+
+    const user = currentUser(req);
     res.json({ 
       user: { 
-        id: 1, 
-        username: 'demo_user' 
+        id: user.id, 
+        username: user.username,
+        role: user.role
       }
     });
   });
 
   // Account routes
   app.get('/api/accounts', isAuthenticated, asyncHandler(async (req, res) => {
-    const accounts = await storage.getAccounts();
-    res.json(accounts);
+    const accounts = await storage.getAccounts(ownerScope(req));
+    res.json(accounts.map(toPublicAccount));
   }));
 
   app.get('/api/accounts/:id', isAuthenticated, asyncHandler(async (req, res) => {
@@ -151,11 +224,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     const account = await storage.getAccount(id);
-    if (!account) {
+    if (!account || !canAccess(req, account)) {
       return res.status(404).json({ message: 'Account not found' });
     }
 
-    res.json(account);
+    res.json(toPublicAccount(account));
   }));
 
   app.post('/api/accounts', isAuthenticated, asyncHandler(async (req, res) => {
@@ -164,8 +237,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ message: 'Invalid account data', errors: validation.error.format() });
     }
 
-    const account = await storage.createAccount(validation.data);
-    res.status(201).json(account);
+    const problem = validation.data.proxy && await proxyProblem(validation.data.proxy);
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const account = await storage.createAccount({ ...validation.data, userId: currentUser(req).id });
+    res.status(201).json(toPublicAccount(account));
   }));
 
   app.patch('/api/accounts/:id', isAuthenticated, asyncHandler(async (req, res) => {
@@ -174,13 +252,160 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ message: 'Invalid account ID' });
     }
 
+    const validation = updateAccountSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: 'Invalid account data', errors: validation.error.format() });
+    }
+
+    const account = await storage.getAccount(id);
+    if (!account || !canAccess(req, account)) {
+      return res.status(404).json({ message: 'Account not found' });
+    }
+
+    const proxyChanged = validation.data.proxy !== undefined && (validation.data.proxy || null) !== account.proxy;
+    const problem = proxyChanged && validation.data.proxy && await proxyProblem(validation.data.proxy);
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    // Resuming by hand clears a circuit-breaker pause too
+    const updatedAccount = await storage.updateAccount(id, validation.data.active
+      ? { ...validation.data, authError: null }
+      : validation.data);
+    // Pausing or resuming an account stops or starts all of its farms;
+    // a new proxy needs new connections
+    if (proxyChanged) {
+      await farmEngine.restartAccount(id);
+    } else if (validation.data.active !== undefined) {
+      await farmEngine.syncAccount(id);
+    }
+    res.json(updatedAccount && toPublicAccount(updatedAccount));
+  }));
+
+  // Write-only: credentials can be replaced but are never returned
+  app.put('/api/accounts/:id/credentials', isAuthenticated, asyncHandler(async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid account ID' });
+    }
+
+    const validation = replaceCredentialsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: 'Invalid credentials', errors: validation.error.format() });
+    }
+
     const account = await storage.getAccount(id);
-    if (!account) {
+    if (!account || !canAccess(req, account)) {
       return res.status(404).json({ message: 'Account not found' });
     }
 
-    const updatedAccount = await storage.updateAccount(id, req.body);
-    res.json(updatedAccount);
+    // An account paused by the circuit breaker resumes with its new credentials
+    const resume = account.authError != null;
+    const updatedAccount = await storage.updateAccount(id, resume
+      ? { ...validation.data, active: true, authError: null }
+      : validation.data);
+    // Running workers hold clients and PubSub listens built with the old token
+    farmEngine.resetAuthFailures(id);
+    await farmEngine.restartAccount(id);
+    if (resume) {
+      await farmEvents.publish({
+        type: "account-resumed",
+        source: accountSource(account),
+        previousError: account.authError!,
+      });
+    }
+    res.json(updatedAccount && toPublicAccount(updatedAccount));
+  }));
+
+  // Channels the account follows on Twitch, flagged when already farmed
+  app.get('/api/accounts/:id/follows', isAuthenticated, asyncHandler(async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid account ID' });
+    }
+
+    const account = await storage.getAccount(id);
+    if (!account || !canAccess(req, account)) {
+      return res.status(404).json({ message: 'Account not found' });
+    }
+
+    let follows: FollowedChannel[];
+    try {
+      follows = await createTwitchClient(account).getFollowedChannels();
+    } catch (error) {
+      return twitchErrorResponse(res, account, error);
+    }
+
+    const farms = await storage.getFarmsByAccountId(id);
+    res.json(follows.map((channel) => ({ ...channel, farmed: hasChannelFarm(farms, channel) })));
+  }));
+
+  // Creates farms for the selected followed channels, skipping farmed ones
+  app.post('/api/accounts/:id/follows/import', isAuthenticated, asyncHandler(async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid account ID' });
+    }
+
+    const validation = importFollowsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: 'Invalid import data', errors: validation.error.format() });
+    }
+
+    const account = await storage.getAccount(id);
+    if (!account || !canAccess(req, account)) {
+      return res.status(404).json({ message: 'Account not found' });
+    }
+
+    // Channel details come from Twitch, not the request
+    let follows: FollowedChannel[];
+    try {
+      follows = await createTwitchClient(account).getFollowedChannels();
+    } catch (error) {
+      return twitchErrorResponse(res, account, error);
+    }
+
+    const { channelIds, features, predictionSettings } = validation.data;
+    const selected = follows.filter((channel) => channelIds.includes(channel.id));
+    const farms = await storage.getFarmsByAccountId(id);
+
+    const created: Farm[] = [];
+    const skipped: string[] = [];
+    for (const channel of selected) {
+      if (hasChannelFarm([...farms, ...created], channel)) {
+        skipped.push(channel.login);
+        continue;
+      }
+      created.push(await storage.createFarm({
+        userId: account.userId,
+        accountId: account.id,
+        targetType: "channel",
+        gameName: null,
+        channelName: channel.login,
+        channelId: channel.id,
+        channelDisplayName: channel.displayName,
+        features,
+        predictionSettings,
+      }));
+    }
+
+    if (created.length > 0) {
+      await farmEvents.publish({
+        type: "channels-imported",
+        source: accountSource(account),
+        channels: created.map((farm) => farm.channelName),
+      });
+    }
+    for (const farm of created) {
+      await farmEngine.syncFarm(farm.id);
+    }
+
+    res.status(201).json({
+      created: created.map((farm) => ({ ...farm, accountName: account.name })),
+      skipped,
+      // Selected ids the account doesn't follow (anymore)
+      notFollowed: channelIds.filter((channelId) => !follows.some((channel) => channel.id === channelId)),
+    });
   }));
 
   app.delete('/api/accounts/:id', isAuthenticated, asyncHandler(async (req, res) => {
@@ -189,26 +414,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ message: 'Invalid account ID' });
     }
 
+    const account = await storage.getAccount(id);
+    if (!account || !canAccess(req, account)) {
+      return res.status(404).json({ message: 'Account not found' });
+    }
+
+    const accountFarms = await storage.getFarmsByAccountId(id);
     const success = await storage.deleteAccount(id);
     if (!success) {
       return res.status(404).json({ message: 'Account not found' });
     }
+    accountFarms.forEach(farm => farmEngine.stopFarm(farm.id));
 
     res.json({ message: 'Account deleted successfully' });
   }));
 
   // Farm routes
   app.get('/api/farms', isAuthenticated, asyncHandler(async (req, res) => {
-    const farms = await storage.getFarms();
+    const farms = await storage.getFarms(ownerScope(req));
     
     // Get account names for farms
-    const accounts = await storage.getAccounts();
+    const accounts = await storage.getAccounts(ownerScope(req));
     const accountMap = new Map(accounts.map(a => [a.id, a]));
     
     // Enhance farms with account names
     const enhancedFarms = farms.map(farm => ({
       ...farm,
-      accountName: accountMap.get(farm.accountId)?.name || 'Unknown'
+      accountName: accountMap.get(farm.accountId)?.name || 'Unknown',
+      watchState: farmEngine.watchState(farm.id)
     }));
     
     res.json(enhancedFarms);
@@ -221,7 +454,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     const farm = await storage.getFarm(id);
-    if (!farm) {
+    if (!farm || !canAccess(req, farm)) {
       return res.status(404).json({ message: 'Farm not found' });
     }
 
@@ -230,7 +463,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     res.json({
       ...farm,
-      accountName: account?.name || 'Unknown'
+      accountName: account?.name || 'Unknown',
+      watchState: farmEngine.watchState(farm.id)
     });
   }));
 
@@ -242,25 +476,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     // Verify account exists
     const account = await storage.getAccount(validation.data.accountId);
-    if (!account) {
+    if (!account || !canAccess(req, account)) {
       return res.status(400).json({ message: 'Account not found' });
     }
 
-    const farm = await storage.createFarm(validation.data);
+    let data: InsertFarm & Partial<FarmChannel>;
+    if (validation.data.targetType === "game") {
+      // Game farms exist to earn drops, and stop once they are all claimed
+      data = { ...validation.data, channelName: "", features: { ...validation.data.features, claimDrops: true } };
+    } else {
+      // Resolve the login to the channel's id, which the farm is tracked by from now on
+      let channel: TwitchChannel | null;
+      try {
+        channel = await createTwitchClient(account).getChannel(validation.data.channelName.trim());
+      } catch (error) {
+        return twitchErrorResponse(res, account, error);
+      }
+      if (!channel) {
+        return res.status(400).json({ message: `Channel ${validation.data.channelName} does not exist on Twitch` });
+      }
+
+      data = {
+        ...validation.data,
+        gameName: null,
+        channelName: channel.login,
+        channelId: channel.id,
+        channelDisplayName: channel.displayName,
+        profileImage: channel.profileImage,
+      };
+    }
+
+    // Farms belong to whoever owns the Twitch account
+    const farm = await storage.createFarm({ ...data, userId: account.userId });
     
-    // Create initial log entry
-    await storage.createLog({
-      accountId: farm.accountId,
-      accountName: account.name,
-      channelId: farm.channelId || "",
-      channelName: farm.channelName,
-      event: `Started farming channel ${farm.channelName}`,
-      status: "success",
-      details: `Enabled features: ${Object.entries(farm.features)
-        .filter(([_, enabled]) => enabled)
-        .map(([feature]) => feature)
-        .join(', ')}`
+    await farmEvents.publish({
+      type: "farm-created",
+      source: farmSource(farm, account.name),
+      targetType: farm.targetType,
+      gameName: farm.gameName,
+      features: farm.features,
     });
+
+    await farmEngine.syncFarm(farm.id);
     
     res.status(201).json({
       ...farm,
@@ -274,19 +531,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ message: 'Invalid farm ID' });
     }
 
+    const validation = updateFarmSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: 'Invalid farm data', errors: validation.error.format() });
+    }
+
     const farm = await storage.getFarm(id);
-    if (!farm) {
+    if (!farm || !canAccess(req, farm)) {
       return res.status(404).json({ message: 'Farm not found' });
     }
 
-    const updatedFarm = await storage.updateFarm(id, req.body);
+    let farmUpdate: UpdateFarm & Partial<FarmChannel> = validation.data;
+    const channelName = farmUpdate.channelName;
+    const channelChanged = channelName !== undefined && channelName.toLowerCase() !== farm.channelName.toLowerCase();
+    if (channelChanged && farm.targetType === "game") {
+      return res.status(400).json({ message: 'A game farm picks its own channel' });
+    }
+    if (channelChanged) {
+      const account = await storage.getAccount(farm.accountId);
+      if (!account) {
+        return res.status(400).json({ message: 'Account not found' });
+      }
+
+      // The farm is tracked by the new channel's id from now on
+      let channel: TwitchChannel | null;
+      try {
+        channel = await createTwitchClient(account).getChannel(channelName);
+      } catch (error) {
+        return twitchErrorResponse(res, account, error);
+      }
+      if (!channel) {
+        return res.status(400).json({ message: `Channel ${channelName} does not exist on Twitch` });
+      }
+
+      farmUpdate = {
+        ...farmUpdate,
+        channelName: channel.login,
+        channelId: channel.id,
+        channelDisplayName: channel.displayName,
+        profileImage: channel.profileImage,
+      };
+    } else {
+      delete farmUpdate.channelName;
+    }
+
+    let updatedFarm = await storage.updateFarm(id, farmUpdate);
+    // A running worker is still watching the old channel
+    if (channelChanged) farmEngine.stopFarm(id);
+    await farmEngine.syncFarm(id);
+    // Apply a new schedule now rather than on the next tick
+    if ("schedule" in farmUpdate && farmEngine.isRunning(id)) {
+      await farmEngine.tick(id);
+      updatedFarm = await storage.getFarm(id);
+    }
     
     // Get account info
     const account = await storage.getAccount(farm.accountId);
     
     res.json({
       ...updatedFarm,
-      accountName: account?.name || 'Unknown'
+      accountName: account?.name || 'Unknown',
+      watchState: farmEngine.watchState(id)
     });
   }));
 
@@ -297,7 +602,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     const farm = await storage.getFarm(id);
-    if (!farm) {
+    if (!farm || !canAccess(req, farm)) {
       return res.status(404).json({ message: 'Farm not found' });
     }
     
@@ -308,17 +613,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!success) {
       return res.status(404).json({ message: 'Farm not found' });
     }
+    farmEngine.stopFarm(id);
     
-    // Log the deletion
     if (account) {
-      await storage.createLog({
-        accountId: farm.accountId,
-        accountName: account.name,
-        channelId: farm.channelId || "",
-        channelName: farm.channelName,
-        event: `Stopped farming channel ${farm.channelName}`,
-        status: "info",
-        details: "Farm deleted by user"
+      await farmEvents.publish({
+        type: "farm-deleted",
+        source: farmSource(farm, account.name),
+        targetType: farm.targetType,
+        gameName: farm.gameName,
       });
     }
 
@@ -328,35 +630,173 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Log routes
   app.get('/api/logs', isAuthenticated, asyncHandler(async (req, res) => {
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
-    const logs = await storage.getLogs(limit);
+    const logs = await storage.getLogs(limit, ownerScope(req));
     res.json(logs);
   }));
 
+  // Drop routes: campaign progress per account and the drops claimed so far
+  app.get('/api/drops', isAuthenticated, asyncHandler(async (req, res) => {
+    res.json({
+      accounts: dropsTracker.getSnapshots(ownerScope(req)),
+      claimed: await storage.getClaimedDrops(ownerScope(req)),
+    });
+  }));
+
+  app.post('/api/drops/refresh', isAuthenticated, asyncHandler(async (req, res) => {
+    await dropsTracker.poll();
+    res.json({
+      accounts: dropsTracker.getSnapshots(ownerScope(req)),
+      claimed: await storage.getClaimedDrops(ownerScope(req)),
+    });
+  }));
+
+  // Outbound Twitch request limiter; per-account buckets only for the caller's accounts
+  app.get('/api/diagnostics/rate-limiter', isAuthenticated, asyncHandler(async (req, res) => {
+    const metrics = twitchRateLimiter.metrics();
+    const accounts = await storage.getAccounts(ownerScope(req));
+    res.json({
+      ...metrics,
+      accounts: metrics.accounts.flatMap((bucket) => {
+        const account = accounts.find((a) => a.id === bucket.accountId);
+        return account ? [{ ...bucket, accountName: account.name }] : [];
+      }),
+    });
+  }));
+
+  // Notification sink routes. Webhook URLs are write-only and come back masked.
+  app.get('/api/notifications/sinks', isAuthenticated, asyncHandler(async (req, res) => {
+    const sinks = await storage.getNotificationSinks(ownerScope(req));
+    res.json(sinks.map(toPublicSink));
+  }));
+
+  app.post('/api/notifications/sinks', isAuthenticated, asyncHandler(async (req, res) => {
+    const validation = insertNotificationSinkSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: 'Invalid notification sink data', errors: validation.error.format() });
+    }
+    if (!isAllowedWebhookUrl(validation.data.webhookUrl)) {
+      return res.status(400).json({ message: WEBHOOK_URL_ERROR });
+    }
+
+    const sink = await storage.createNotificationSink({ ...validation.data, userId: currentUser(req).id });
+    res.status(201).json(toPublicSink(sink));
+  }));
+
+  app.patch('/api/notifications/sinks/:id', isAuthenticated, asyncHandler(async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid notification sink ID' });
+    }
+
+    const validation = updateNotificationSinkSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: 'Invalid notification sink data', errors: validation.error.format() });
+    }
+    if (validation.data.webhookUrl !== undefined && !isAllowedWebhookUrl(validation.data.webhookUrl)) {
+      return res.status(400).json({ message: WEBHOOK_URL_ERROR });
+    }
+
+    const sink = await storage.getNotificationSink(id);
+    if (!sink || !canAccess(req, sink)) {
+      return res.status(404).json({ message: 'Notification sink not found' });
+    }
+
+    const updatedSink = await storage.updateNotificationSink(id, validation.data);
+    res.json(updatedSink && toPublicSink(updatedSink));
+  }));
+
+  app.delete('/api/notifications/sinks/:id', isAuthenticated, asyncHandler(async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid notification sink ID' });
+    }
+
+    const sink = await storage.getNotificationSink(id);
+    if (!sink || !canAccess(req, sink)) {
+      return res.status(404).json({ message: 'Notification sink not found' });
+    }
+
+    const success = await storage.deleteNotificationSink(id);
+    if (!success) {
+      return res.status(404).json({ message: 'Notification sink not found' });
+    }
+
+    res.json({ message: 'Notification sink deleted successfully' });
+  }));
+
+  // Sends a sample message to one sink, ignoring its filters and enabled flag
+  app.post('/api/notifications/sinks/:id/test', isAuthenticated, asyncHandler(async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid notification sink ID' });
+    }
+
+    const sink = await storage.getNotificationSink(id);
+    if (!sink || !canAccess(req, sink)) {
+      return res.status(404).json({ message: 'Notification sink not found' });
+    }
+
+    const testLog: Log = {
+      id: 0,
+      timestamp: new Date(),
+      userId: sink.userId,
+      accountId: 0,
+      accountName: "System",
+      channelId: "",
+      channelName: "All Channels",
+      event: `Test notification for ${sink.name}`,
+      status: "info",
+      details: null,
+    };
+
+    const result = await deliverToSink(sink, testLog);
+    const updatedSink = await storage.getNotificationSink(id);
+    res.status(result.delivered ? 200 : 502).json({
+      ...result,
+      sink: updatedSink && toPublicSink(updatedSink),
+    });
+  }));
+
   // Stats routes
   app.get('/api/stats', isAuthenticated, asyncHandler(async (req, res) => {
     const stats = await storage.getCurrentStats();
     if (!stats) {
       return res.status(404).json({ message: 'Stats not found' });
     }
+
+    // Farm totals are summed over the farms this user can see. Prediction
+    // results are only counted installation-wide, so only admins get them.
+    const ownerId = ownerScope(req);
+    const farms = await storage.getFarms(ownerId);
+    const farmStats = {
+      activeFarms: farms.filter(farm => farm.enabled !== false).length,
+      pointsClaimed: farms.reduce((total, farm) => total + (farm.pointsClaimed || 0), 0),
+      watchHours: Math.round(farms.reduce((total, farm) => total + (farm.watchTime || 0), 0) / 3600)
+    };
     
     // Calculate change percentages (normally this would be from historical data)
     // For demo purposes, we'll generate some random changes
     const changes = {
       farmsChange: Math.floor(Math.random() * 3) - 1,
       pointsClaimedChange: Math.floor(Math.random() * 5000) - 2000,
-      watchHoursChange: parseFloat((Math.random() * 2 - 1).toFixed(1)),
-      predictionRateChange: Math.floor(Math.random() * 10) - 5
+      watchHoursChange: parseFloat((Math.random() * 2 - 1).toFixed(1))
     };
     
+    const { predictionRate: _rate, predictionsResolved, predictionsWon, ...totals } = stats;
     res.json({
-      ...stats,
+      ...(ownerId === undefined ? { ...stats, predictionRate: predictionRate(stats) } : totals),
+      ...farmStats,
       changes
     });
   }));
   
   // Optimization API
   app.post('/api/optimize', isAuthenticated, asyncHandler(async (req, res) => {
-    const { preset, accountsCount } = req.body;
+    const validation = optimizeRequestSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: 'Invalid optimization request', errors: validation.error.format() });
+    }
+    const { preset, accountsCount } = validation.data;
     
     // In a real implementation, this would apply optimization settings to farms
     // based on the selected preset (balanced, aggressive, conservative)
@@ -364,30 +804,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // For now we'll just log the optimization and return success
     console.log(`Optimizing ${accountsCount} account(s) with "${preset}" preset`);
     
-    // Create a log entry
-    await storage.createLog({
-      accountId: 0,
-      accountName: "System",
-      channelId: "",
-      channelName: "All Channels",
-      event: `Optimization Wizard ran with ${preset} preset`,
-      status: "success",
-      details: `Applied ${preset} optimization to ${accountsCount} account(s)`,
+    await farmEvents.publish({
+      type: "optimization-applied",
+      source: {
+        userId: currentUser(req).id,
+        accountId: 0,
+        accountName: "System",
+        farmId: null,
+        channelId: "",
+        channelName: "All Channels",
+      },
+      preset,
+      accountsCount,
     });
     
-    // For demo purposes, we'll also update stats to reflect optimization
-    const stats = await storage.getCurrentStats();
-    if (stats) {
-      // Small boost to prediction rate based on optimization
-      const optimizationBoost = 
-        preset === 'aggressive' ? 4 : 
-        preset === 'conservative' ? 1 : 2;
-        
-      await storage.updateStats({
-        predictionRate: Math.min(98, (stats.predictionRate || 0) + optimizationBoost),
-      });
-    }
-    
     res.json({ 
       success: true, 
       message: `Optimized ${accountsCount} account(s) with ${preset} preset`,
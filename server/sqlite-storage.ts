@@ -0,0 +1,313 @@
+import { count, desc, eq, lte, sql } from "drizzle-orm";
+import { accounts, claimedDrops, farms, logs, notificationSinks, stats, users } from "@shared/sqlite-schema";
+import {
+  Account, InsertAccount,
+  Farm, InsertFarm, FarmChannel,
+  Log, InsertLog,
+  Stat,
+  NotificationSink, InsertNotificationSink,
+  ClaimedDrop, InsertClaimedDrop,
+  User, InsertUser, UserRole, Owned
+} from "@shared/schema";
+import { migrateSqlite } from "./migrate";
+import type { SqliteDatabase } from "./sqlite";
+import { sealAccountCredentials } from "./credentials";
+import { LOG_LIMIT, newFarmValues } from "./drizzle-storage";
+import type { IStorage, StatIncrements } from "./storage";
+
+// The same queries as DbStorage, type-checked against the libsql client and
+// the SQLite tables that run them
+export class SqliteStorage implements IStorage {
+  constructor(private db: SqliteDatabase) {}
+
+  async init(): Promise<void> {
+    await migrateSqlite(this.db);
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async countUsers(): Promise<number> {
+    const [{ total }] = await this.db.select({ total: count() }).from(users);
+    return total;
+  }
+
+  async createUser(insertUser: InsertUser & { role?: UserRole }): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Account methods
+  async getAccounts(ownerId?: number): Promise<Account[]> {
+    return this.db
+      .select()
+      .from(accounts)
+      .where(ownerId === undefined ? undefined : eq(accounts.userId, ownerId))
+      .orderBy(accounts.id);
+  }
+
+  async getAccount(id: number): Promise<Account | undefined> {
+    const [account] = await this.db.select().from(accounts).where(eq(accounts.id, id));
+    return account;
+  }
+
+  async createAccount(insertAccount: InsertAccount & Owned): Promise<Account> {
+    const [account] = await this.db
+      .insert(accounts)
+      .values({ ...sealAccountCredentials(insertAccount), active: true })
+      .returning();
+    return account;
+  }
+
+  async updateAccount(id: number, accountUpdate: Partial<Account>): Promise<Account | undefined> {
+    const { id: _id, ...values } = sealAccountCredentials(accountUpdate);
+    if (Object.keys(values).length === 0) return this.getAccount(id);
+
+    const [account] = await this.db
+      .update(accounts)
+      .set(values)
+      .where(eq(accounts.id, id))
+      .returning();
+    return account;
+  }
+
+  async deleteAccount(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Delete all farms for this account first
+      const deletedFarms = await tx
+        .delete(farms)
+        .where(eq(farms.accountId, id))
+        .returning({ id: farms.id });
+
+      if (deletedFarms.length > 0) {
+        await tx
+          .update(stats)
+          .set({ activeFarms: sql`${stats.activeFarms} - ${deletedFarms.length}` });
+      }
+
+      const deleted = await tx
+        .delete(accounts)
+        .where(eq(accounts.id, id))
+        .returning({ id: accounts.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Farm methods
+  async getFarms(ownerId?: number): Promise<Farm[]> {
+    return this.db
+      .select()
+      .from(farms)
+      .where(ownerId === undefined ? undefined : eq(farms.userId, ownerId))
+      .orderBy(farms.id);
+  }
+
+  async getFarm(id: number): Promise<Farm | undefined> {
+    const [farm] = await this.db.select().from(farms).where(eq(farms.id, id));
+    return farm;
+  }
+
+  async getFarmsByAccountId(accountId: number): Promise<Farm[]> {
+    return this.db
+      .select()
+      .from(farms)
+      .where(eq(farms.accountId, accountId))
+      .orderBy(farms.id);
+  }
+
+  async createFarm(insertFarm: InsertFarm & Owned & Partial<FarmChannel>): Promise<Farm> {
+    const [farm] = await this.db
+      .insert(farms)
+      .values(newFarmValues(insertFarm))
+      .returning();
+
+    // Update stats
+    await this.ensureStats();
+    await this.db
+      .update(stats)
+      .set({ activeFarms: sql`${stats.activeFarms} + 1` });
+
+    return farm;
+  }
+
+  async updateFarm(id: number, farmUpdate: Partial<Farm>): Promise<Farm | undefined> {
+    const { id: _id, ...values } = farmUpdate;
+    if (Object.keys(values).length === 0) return this.getFarm(id);
+
+    const [farm] = await this.db
+      .update(farms)
+      .set(values)
+      .where(eq(farms.id, id))
+      .returning();
+    return farm;
+  }
+
+  async deleteFarm(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(farms)
+      .where(eq(farms.id, id))
+      .returning({ id: farms.id });
+    if (deleted.length === 0) return false;
+
+    await this.db
+      .update(stats)
+      .set({ activeFarms: sql`${stats.activeFarms} - 1` });
+    return true;
+  }
+
+  // Log methods
+  async getLogs(limit = 100, ownerId?: number): Promise<Log[]> {
+    return this.db
+      .select()
+      .from(logs)
+      .where(ownerId === undefined ? undefined : eq(logs.userId, ownerId))
+      .orderBy(desc(logs.id))
+      .limit(limit);
+  }
+
+  async getLogsByAccountId(accountId: number, limit = 100): Promise<Log[]> {
+    return this.db
+      .select()
+      .from(logs)
+      .where(eq(logs.accountId, accountId))
+      .orderBy(desc(logs.id))
+      .limit(limit);
+  }
+
+  async getLogsByChannelName(channelName: string, limit = 100): Promise<Log[]> {
+    return this.db
+      .select()
+      .from(logs)
+      .where(eq(logs.channelName, channelName))
+      .orderBy(desc(logs.id))
+      .limit(limit);
+  }
+
+  async createLog(insertLog: InsertLog & Owned): Promise<Log> {
+    const [log] = await this.db
+      .insert(logs)
+      .values({ ...insertLog, timestamp: new Date() })
+      .returning();
+
+    // Keep logs limited to the most recent entries
+    const [cutoff] = await this.db
+      .select({ id: logs.id })
+      .from(logs)
+      .orderBy(desc(logs.id))
+      .offset(LOG_LIMIT)
+      .limit(1);
+    if (cutoff) {
+      await this.db.delete(logs).where(lte(logs.id, cutoff.id));
+    }
+
+    return log;
+  }
+
+  // Notification sink methods
+  async getNotificationSinks(ownerId?: number): Promise<NotificationSink[]> {
+    return this.db
+      .select()
+      .from(notificationSinks)
+      .where(ownerId === undefined ? undefined : eq(notificationSinks.userId, ownerId))
+      .orderBy(notificationSinks.id);
+  }
+
+  async getNotificationSink(id: number): Promise<NotificationSink | undefined> {
+    const [sink] = await this.db
+      .select()
+      .from(notificationSinks)
+      .where(eq(notificationSinks.id, id));
+    return sink;
+  }
+
+  async createNotificationSink(insertSink: InsertNotificationSink & Owned): Promise<NotificationSink> {
+    const [sink] = await this.db.insert(notificationSinks).values(insertSink).returning();
+    return sink;
+  }
+
+  async updateNotificationSink(id: number, sinkUpdate: Partial<NotificationSink>): Promise<NotificationSink | undefined> {
+    const { id: _id, ...values } = sinkUpdate;
+    if (Object.keys(values).length === 0) return this.getNotificationSink(id);
+
+    const [sink] = await this.db
+      .update(notificationSinks)
+      .set(values)
+      .where(eq(notificationSinks.id, id))
+      .returning();
+    return sink;
+  }
+
+  async deleteNotificationSink(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(notificationSinks)
+      .where(eq(notificationSinks.id, id))
+      .returning({ id: notificationSinks.id });
+    return deleted.length > 0;
+  }
+
+  // Claimed drop methods
+  async getClaimedDrops(ownerId?: number): Promise<ClaimedDrop[]> {
+    return this.db
+      .select()
+      .from(claimedDrops)
+      .where(ownerId === undefined ? undefined : eq(claimedDrops.userId, ownerId))
+      .orderBy(desc(claimedDrops.id));
+  }
+
+  async createClaimedDrop(insertDrop: InsertClaimedDrop & Owned): Promise<ClaimedDrop> {
+    const [drop] = await this.db
+      .insert(claimedDrops)
+      .values({ ...insertDrop, claimedAt: new Date() })
+      .returning();
+    return drop;
+  }
+
+  // Stats methods
+  async getCurrentStats(): Promise<Stat | undefined> {
+    return this.ensureStats();
+  }
+
+  async updateStats(statsUpdate: Partial<Stat>): Promise<Stat | undefined> {
+    const current = await this.ensureStats();
+    const { id: _id, ...values } = statsUpdate;
+    if (Object.keys(values).length === 0) return current;
+
+    const [updated] = await this.db
+      .update(stats)
+      .set(values)
+      .where(eq(stats.id, current.id))
+      .returning();
+    return updated;
+  }
+
+  async incrementStats({ predictionsResolved = 0, predictionsWon = 0 }: StatIncrements): Promise<void> {
+    await this.ensureStats();
+    await this.db
+      .update(stats)
+      .set({
+        predictionsResolved: sql`${stats.predictionsResolved} + ${predictionsResolved}`,
+        predictionsWon: sql`${stats.predictionsWon} + ${predictionsWon}`,
+      });
+  }
+
+  // The stats table holds a single running row, created on first use
+  private async ensureStats(): Promise<Stat> {
+    const [current] = await this.db
+      .select()
+      .from(stats)
+      .orderBy(desc(stats.date))
+      .limit(1);
+    if (current) return current;
+
+    const [created] = await this.db.insert(stats).values({}).returning();
+    return created;
+  }
+}
@@ -0,0 +1,20 @@
+import fs from "fs";
+import path from "path";
+import { createClient, type Client } from "@libsql/client";
+import { drizzle, type LibSQLDatabase } from "drizzle-orm/libsql";
+import * as schema from "@shared/sqlite-schema";
+
+export type SqliteDatabase = LibSQLDatabase<typeof schema> & { $client: Client };
+
+/**
+ * Opens (creating if needed) a single-file SQLite database. Pass ":memory:"
+ * for a throwaway database.
+ */
+export function connectSqlite(filePath: string): SqliteDatabase {
+  if (filePath !== ":memory:") {
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  }
+
+  const client = createClient({ url: `file:${filePath}` });
+  return drizzle(client, { schema });
+}
@@ -0,0 +1,16 @@
+import type { Stat } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { FarmEventBus } from "./farm-events";
+
+// Counts resolved predictions in the installation-wide stats row
+export function subscribeStats(events: FarmEventBus, storage: IStorage): () => void {
+  return events.on("prediction-resolved", (event) =>
+    storage.incrementStats({ predictionsResolved: 1, predictionsWon: event.won ? 1 : 0 })
+  );
+}
+
+// Percentage of resolved predictions won, derived when read so it always matches the counters
+export function predictionRate(stats: Stat): number {
+  const resolved = stats.predictionsResolved || 0;
+  return resolved === 0 ? 0 : Math.round(((stats.predictionsWon || 0) / resolved) * 100);
+}
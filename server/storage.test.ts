@@ -0,0 +1,92 @@
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import { defaultPredictionSettings, type Account } from "@shared/schema";
+import { generateMasterKey } from "./credentials";
+import { DbStorage } from "./db-storage";
+import { LOG_LIMIT } from "./drizzle-storage";
+import { connectSqlite } from "./sqlite";
+import { SqliteStorage } from "./sqlite-storage";
+import { MemStorage, type IStorage } from "./storage";
+
+// Accounts seal their credentials with the master key; keep it in memory
+process.env.CREDENTIALS_KEY ??= generateMasterKey().toString("base64");
+
+// Every backend runs the same IStorage contract; the SQL ones start from an
+// empty in-process database and apply their migrations in init()
+const backends: [string, () => IStorage][] = [
+  ["MemStorage", () => new MemStorage()],
+  ["DbStorage (Postgres)", () => new DbStorage(drizzle(new PGlite(), { schema }))],
+  ["SqliteStorage", () => new SqliteStorage(connectSqlite(":memory:"))],
+];
+
+for (const [name, createStorage] of backends) {
+  describe(name, () => {
+    let storage: IStorage;
+
+    before(async () => {
+      storage = createStorage();
+      await storage.init();
+    });
+
+    function createAccount(accountName: string): Promise<Account> {
+      return storage.createAccount({ userId: null, name: accountName, username: accountName, authType: "oauth", authCredentials: "token", remember: true, proxy: null });
+    }
+
+    function createFarm(account: Account, channelName: string) {
+      return storage.createFarm({
+        userId: null,
+        accountId: account.id,
+        targetType: "channel",
+        gameName: null,
+        channelName,
+        features: { claimPoints: true, watchTime: true, predictions: false, claimDrops: false },
+        predictionSettings: defaultPredictionSettings,
+        schedule: null,
+      });
+    }
+
+    test("deleteAccount removes the account's farms and updates activeFarms", async () => {
+      const activeFarms = (await storage.getCurrentStats())!.activeFarms;
+      const account = await createAccount("deleted");
+      const other = await createAccount("kept");
+      await createFarm(account, "first");
+      await createFarm(account, "second");
+      const kept = await createFarm(other, "third");
+      assert.equal((await storage.getCurrentStats())!.activeFarms, activeFarms + 3);
+
+      assert.equal(await storage.deleteAccount(account.id), true);
+
+      assert.equal(await storage.getAccount(account.id), undefined);
+      assert.deepEqual(await storage.getFarmsByAccountId(account.id), []);
+      assert.deepEqual((await storage.getFarmsByAccountId(other.id)).map((farm) => farm.id), [kept.id]);
+      assert.equal((await storage.getCurrentStats())!.activeFarms, activeFarms + 1);
+      assert.equal(await storage.deleteAccount(account.id), false);
+    });
+
+    test("incrementStats keeps concurrent increments", async () => {
+      const { predictionsResolved, predictionsWon } = (await storage.getCurrentStats())!;
+
+      await Promise.all(Array.from({ length: 10 }, (_, i) =>
+        storage.incrementStats({ predictionsResolved: 1, predictionsWon: i % 2 })));
+
+      const after = (await storage.getCurrentStats())!;
+      assert.equal(after.predictionsResolved, (predictionsResolved || 0) + 10);
+      assert.equal(after.predictionsWon, (predictionsWon || 0) + 5);
+    });
+
+    test(`createLog keeps the newest ${LOG_LIMIT} logs`, async () => {
+      const account = await createAccount("logged");
+      for (let i = 1; i <= LOG_LIMIT + 5; i++) {
+        await storage.createLog({ accountId: account.id, accountName: account.name, channelName: "channel", channelId: "1", event: `Event ${i}`, status: "info", details: "" });
+      }
+
+      const logs = await storage.getLogs(LOG_LIMIT + 10);
+      assert.equal(logs.length, LOG_LIMIT);
+      assert.equal(logs[0].event, `Event ${LOG_LIMIT + 5}`);
+      assert.equal(logs[LOG_LIMIT - 1].event, "Event 6");
+    });
+  });
+}
@@ -1,65 +1,104 @@
 import { 
   Account, InsertAccount, 
-  Farm, InsertFarm, 
+  Farm, InsertFarm, FarmChannel, 
   Log, InsertLog, 
   Stat, InsertStat,
-  User, InsertUser
+  NotificationSink, InsertNotificationSink,
+  ClaimedDrop, InsertClaimedDrop,
+  User, InsertUser, UserRole, Owned,
+  defaultWatchPriority
 } from "@shared/schema";
+import { sealAccountCredentials } from "./credentials";
+import { connectDatabase } from "./db";
+import { DbStorage } from "./db-storage";
+import { LOG_LIMIT } from "./drizzle-storage";
+import { connectSqlite } from "./sqlite";
+import { SqliteStorage } from "./sqlite-storage";
 
 export interface IStorage {
+  // Prepare the backing store (apply pending migrations) before first use
+  init(): Promise<void>;
+
   // User management
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  countUsers(): Promise<number>;
+  createUser(user: InsertUser & { role?: UserRole }): Promise<User>;
+
+  // List methods take an optional ownerId to return only that user's rows;
+  // without it every tenant's rows are returned (admins, background jobs)
 
   // Account management
-  getAccounts(): Promise<Account[]>;
+  getAccounts(ownerId?: number): Promise<Account[]>;
   getAccount(id: number): Promise<Account | undefined>;
-  createAccount(account: InsertAccount): Promise<Account>;
+  createAccount(account: InsertAccount & Owned): Promise<Account>;
   updateAccount(id: number, account: Partial<Account>): Promise<Account | undefined>;
   deleteAccount(id: number): Promise<boolean>;
 
   // Farm management
-  getFarms(): Promise<Farm[]>;
+  getFarms(ownerId?: number): Promise<Farm[]>;
   getFarm(id: number): Promise<Farm | undefined>;
   getFarmsByAccountId(accountId: number): Promise<Farm[]>;
-  createFarm(farm: InsertFarm): Promise<Farm>;
+  createFarm(farm: InsertFarm & Owned & Partial<FarmChannel>): Promise<Farm>;
   updateFarm(id: number, farm: Partial<Farm>): Promise<Farm | undefined>;
   deleteFarm(id: number): Promise<boolean>;
 
   // Log management
-  getLogs(limit?: number): Promise<Log[]>;
+  getLogs(limit?: number, ownerId?: number): Promise<Log[]>;
   getLogsByAccountId(accountId: number, limit?: number): Promise<Log[]>;
   getLogsByChannelName(channelName: string, limit?: number): Promise<Log[]>;
-  createLog(log: InsertLog): Promise<Log>;
+  createLog(log: InsertLog & Owned): Promise<Log>;
+
+  // Notification sink management
+  getNotificationSinks(ownerId?: number): Promise<NotificationSink[]>;
+  getNotificationSink(id: number): Promise<NotificationSink | undefined>;
+  createNotificationSink(sink: InsertNotificationSink & Owned): Promise<NotificationSink>;
+  updateNotificationSink(id: number, sink: Partial<NotificationSink>): Promise<NotificationSink | undefined>;
+  deleteNotificationSink(id: number): Promise<boolean>;
+
+  // Claimed drops, newest first
+  getClaimedDrops(ownerId?: number): Promise<ClaimedDrop[]>;
+  createClaimedDrop(drop: InsertClaimedDrop & Owned): Promise<ClaimedDrop>;
 
   // Stats management
   getCurrentStats(): Promise<Stat | undefined>;
   updateStats(stats: Partial<Stat>): Promise<Stat | undefined>;
+  // Adds to the counters in one write, so concurrent events aren't lost
+  incrementStats(increments: StatIncrements): Promise<void>;
 }
 
+export type StatIncrements = Partial<Record<"predictionsResolved" | "predictionsWon", number>>;
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private accounts: Map<number, Account>;
   private farms: Map<number, Farm>;
   private logs: Log[];
+  private notificationSinks: Map<number, NotificationSink>;
+  private claimedDrops: ClaimedDrop[];
   private currentStats: Stat | undefined;
   
   private currentUserId: number;
   private currentAccountId: number;
   private currentFarmId: number;
   private currentLogId: number;
+  private currentNotificationSinkId: number;
+  private currentClaimedDropId: number;
 
   constructor() {
     this.users = new Map();
     this.accounts = new Map();
     this.farms = new Map();
     this.logs = [];
+    this.notificationSinks = new Map();
+    this.claimedDrops = [];
     
     this.currentUserId = 1;
     this.currentAccountId = 1;
     this.currentFarmId = 1;
     this.currentLogId = 1;
+    this.currentNotificationSinkId = 1;
+    this.currentClaimedDropId = 1;
     
     // Set initial stats
     this.currentStats = {
@@ -68,10 +107,16 @@ export class MemStorage implements IStorage {
       activeFarms: 0,
       pointsClaimed: 0,
       watchHours: 0,
-      predictionRate: 0
+      predictionRate: 0,
+      predictionsResolved: 0,
+      predictionsWon: 0
     };
   }
 
+  async init(): Promise<void> {
+    // Nothing to prepare for the in-memory store
+  }
+
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
@@ -83,25 +128,39 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async countUsers(): Promise<number> {
+    return this.users.size;
+  }
+
+  async createUser(insertUser: InsertUser & { role?: UserRole }): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, role: insertUser.role ?? "user" };
     this.users.set(id, user);
     return user;
   }
 
   // Account methods
-  async getAccounts(): Promise<Account[]> {
-    return Array.from(this.accounts.values());
+  async getAccounts(ownerId?: number): Promise<Account[]> {
+    return Array.from(this.accounts.values()).filter(
+      (account) => ownerId === undefined || account.userId === ownerId
+    );
   }
 
   async getAccount(id: number): Promise<Account | undefined> {
     return this.accounts.get(id);
   }
 
-  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+  async createAccount(insertAccount: InsertAccount & Owned): Promise<Account> {
     const id = this.currentAccountId++;
-    const account: Account = { ...insertAccount, id, active: true };
+    const account: Account = {
+      ...sealAccountCredentials(insertAccount),
+      id,
+      userId: insertAccount.userId ?? null,
+      active: true,
+      watchPriority: [...defaultWatchPriority],
+      authError: null,
+      proxy: insertAccount.proxy ?? null
+    };
     this.accounts.set(id, account);
     return account;
   }
@@ -110,7 +169,7 @@ export class MemStorage implements IStorage {
     const account = this.accounts.get(id);
     if (!account) return undefined;
     
-    const updatedAccount = { ...account, ...accountUpdate };
+    const updatedAccount = { ...account, ...sealAccountCredentials(accountUpdate) };
     this.accounts.set(id, updatedAccount);
     return updatedAccount;
   }
@@ -126,8 +185,10 @@ export class MemStorage implements IStorage {
   }
 
   // Farm methods
-  async getFarms(): Promise<Farm[]> {
-    return Array.from(this.farms.values());
+  async getFarms(ownerId?: number): Promise<Farm[]> {
+    return Array.from(this.farms.values()).filter(
+      (farm) => ownerId === undefined || farm.userId === ownerId
+    );
   }
 
   async getFarm(id: number): Promise<Farm | undefined> {
@@ -140,18 +201,24 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createFarm(insertFarm: InsertFarm): Promise<Farm> {
+  async createFarm(insertFarm: InsertFarm & Owned & Partial<FarmChannel>): Promise<Farm> {
     const id = this.currentFarmId++;
     const farm: Farm = {
       ...insertFarm,
       id,
-      channelId: "",
-      profileImage: "",
+      userId: insertFarm.userId ?? null,
+      targetType: insertFarm.targetType ?? "channel",
+      gameName: insertFarm.gameName ?? null,
+      schedule: insertFarm.schedule ?? null,
+      channelId: insertFarm.channelId ?? "",
+      channelDisplayName: insertFarm.channelDisplayName ?? null,
+      profileImage: insertFarm.profileImage ?? "",
       status: "active",
       uptime: 0,
       pointsClaimed: 0,
       watchTime: 0,
       enabled: true,
+      priority: 0,
       lastActivity: new Date()
     };
     
@@ -184,8 +251,11 @@ export class MemStorage implements IStorage {
   }
 
   // Log methods
-  async getLogs(limit = 100): Promise<Log[]> {
-    return this.logs.slice(-limit).reverse();
+  async getLogs(limit = 100, ownerId?: number): Promise<Log[]> {
+    return this.logs
+      .filter(log => ownerId === undefined || log.userId === ownerId)
+      .slice(-limit)
+      .reverse();
   }
 
   async getLogsByAccountId(accountId: number, limit = 100): Promise<Log[]> {
@@ -202,28 +272,88 @@ export class MemStorage implements IStorage {
       .reverse();
   }
 
-  async createLog(insertLog: InsertLog): Promise<Log> {
+  async createLog(insertLog: InsertLog & Owned): Promise<Log> {
     const id = this.currentLogId++;
     const log: Log = {
       ...insertLog,
       id,
+      userId: insertLog.userId ?? null,
       timestamp: new Date()
     };
     
-    // Send to Discord webhook
-    const { sendDiscordLog } = await import('./discord-logger');
-    await sendDiscordLog(log);
-    
     this.logs.push(log);
     
     // Keep logs limited to prevent memory issues
-    if (this.logs.length > 1000) {
-      this.logs = this.logs.slice(-1000);
+    if (this.logs.length > LOG_LIMIT) {
+      this.logs = this.logs.slice(-LOG_LIMIT);
     }
     
     return log;
   }
 
+  // Notification sink methods
+  async getNotificationSinks(ownerId?: number): Promise<NotificationSink[]> {
+    return Array.from(this.notificationSinks.values()).filter(
+      (sink) => ownerId === undefined || sink.userId === ownerId
+    );
+  }
+
+  async getNotificationSink(id: number): Promise<NotificationSink | undefined> {
+    return this.notificationSinks.get(id);
+  }
+
+  async createNotificationSink(insertSink: InsertNotificationSink & Owned): Promise<NotificationSink> {
+    const id = this.currentNotificationSinkId++;
+    const sink: NotificationSink = {
+      ...insertSink,
+      id,
+      userId: insertSink.userId ?? null,
+      type: "discord",
+      enabled: insertSink.enabled ?? true,
+      lastDeliveryAt: null,
+      lastDeliveryStatus: null,
+      lastError: null
+    };
+    this.notificationSinks.set(id, sink);
+    return sink;
+  }
+
+  async updateNotificationSink(id: number, sinkUpdate: Partial<NotificationSink>): Promise<NotificationSink | undefined> {
+    const sink = this.notificationSinks.get(id);
+    if (!sink) return undefined;
+
+    const updatedSink = { ...sink, ...sinkUpdate };
+    this.notificationSinks.set(id, updatedSink);
+    return updatedSink;
+  }
+
+  async deleteNotificationSink(id: number): Promise<boolean> {
+    return this.notificationSinks.delete(id);
+  }
+
+  // Claimed drop methods
+  async getClaimedDrops(ownerId?: number): Promise<ClaimedDrop[]> {
+    return this.claimedDrops.filter(
+      (drop) => ownerId === undefined || drop.userId === ownerId
+    );
+  }
+
+  async createClaimedDrop(insertDrop: InsertClaimedDrop & Owned): Promise<ClaimedDrop> {
+    if (this.claimedDrops.some((drop) => drop.dropInstanceId === insertDrop.dropInstanceId)) {
+      throw new Error(`Drop instance ${insertDrop.dropInstanceId} was already recorded`);
+    }
+
+    const drop: ClaimedDrop = {
+      ...insertDrop,
+      id: this.currentClaimedDropId++,
+      userId: insertDrop.userId ?? null,
+      gameName: insertDrop.gameName ?? null,
+      claimedAt: new Date()
+    };
+    this.claimedDrops.unshift(drop);
+    return drop;
+  }
+
   // Stats methods
   async getCurrentStats(): Promise<Stat | undefined> {
     return this.currentStats;
@@ -239,6 +369,29 @@ export class MemStorage implements IStorage {
     
     return this.currentStats;
   }
+
+  async incrementStats({ predictionsResolved = 0, predictionsWon = 0 }: StatIncrements): Promise<void> {
+    if (!this.currentStats) return;
+
+    this.currentStats = {
+      ...this.currentStats,
+      predictionsResolved: (this.currentStats.predictionsResolved || 0) + predictionsResolved,
+      predictionsWon: (this.currentStats.predictionsWon || 0) + predictionsWon
+    };
+  }
+}
+
+// Persist to Postgres when a database is provisioned, to a single SQLite
+// file when SQLITE_PATH is set, otherwise keep everything in memory (lost
+// on restart)
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    return new DbStorage(connectDatabase(process.env.DATABASE_URL));
+  }
+  if (process.env.SQLITE_PATH) {
+    return new SqliteStorage(connectSqlite(process.env.SQLITE_PATH));
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,20 @@
+// Shared by the node:test suites
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await sleep(10);
+  }
+}
+
+// waitFor for suites that mock setTimeout and Date: polls between I/O
+// callbacks and keeps its deadline on the real clock
+export async function waitForIO(condition: () => boolean | Promise<boolean>, timeoutMs = 5000): Promise<void> {
+  const deadline = performance.now() + timeoutMs;
+  while (!(await condition())) {
+    if (performance.now() > deadline) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
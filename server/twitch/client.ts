@@ -0,0 +1,397 @@
+import crypto from "crypto";
+import type { Account } from "@shared/schema";
+import { decryptAccountCredentials, parseAuthToken } from "../credentials";
+import {
+  ChannelPointsContext,
+  ClaimCommunityPoints,
+  DirectoryPageGame,
+  DropsPageClaimDropRewards,
+  Inventory,
+  MakePrediction,
+  ViewerDropsDashboard,
+  type ChannelPointsContextResponse,
+  type ClaimCommunityPointsResponse,
+  type DirectoryPageGameResponse,
+  type DropsPageClaimDropRewardsResponse,
+  type InventoryResponse,
+  type MakePredictionResponse,
+  type ViewerDropsDashboardResponse
+} from "./gql";
+import {
+  TwitchApiError,
+  TwitchAuthError,
+  TwitchTransport,
+  type TwitchTransportConfig
+} from "./transport";
+
+export { TwitchApiError, TwitchAuthError } from "./transport";
+
+/**
+ * Everything the farm needs from Twitch. Farm features only ever talk to
+ * this interface, so tests and offline runs can substitute their own client
+ * via a TwitchClientFactory.
+ */
+export interface TwitchClient {
+  // null when no channel has that login
+  getChannel(channelName: string): Promise<TwitchChannel | null>;
+  // By Twitch user id, which stays the same when the streamer renames the channel
+  getChannelById(channelId: string): Promise<TwitchChannel | null>;
+  // Live streams playing a game with drops enabled, most viewers first
+  getDropsStreams(gameName: string): Promise<TwitchChannel[]>;
+  getChannelPointsContext(channelName: string): Promise<ChannelPointsState>;
+  // Returns the balance after the claim
+  claimBonus(channelId: string, claimId: string): Promise<number>;
+  makePrediction(eventId: string, outcomeId: string, points: number): Promise<void>;
+  // Campaigns the account has started, with per-drop progress
+  getDropsInventory(): Promise<DropCampaignProgress[]>;
+  // Every campaign currently running or announced
+  getDropCampaigns(): Promise<DropCampaign[]>;
+  claimDrop(dropInstanceId: string): Promise<void>;
+  /**
+   * Reports one minute of watching a live channel. Returns whether Twitch
+   * accepted the heartbeat; only accepted minutes count as watch time.
+   */
+  sendMinuteWatched(channel: TwitchChannel): Promise<boolean>;
+  // The account's Twitch user id, the token its own PubSub topics need and
+  // the proxy its PubSub connections go through
+  getPubSubAuth(): Promise<{ userId: string, authToken: string, proxy: string | null }>;
+  // Every channel the account follows, most recently followed first
+  getFollowedChannels(): Promise<FollowedChannel[]>;
+}
+
+export interface TwitchChannel {
+  id: string;
+  login: string;
+  displayName: string;
+  profileImage: string;
+  live: boolean;
+  // Id, title and category (game) of the current broadcast while live
+  broadcastId: string | null;
+  title: string | null;
+  category: string | null;
+}
+
+export interface FollowedChannel {
+  id: string;
+  login: string;
+  displayName: string;
+  followedAt: Date;
+}
+
+export interface ChannelPointsState {
+  channelId: string;
+  balance: number;
+  // Set while a bonus chest is waiting to be claimed
+  availableClaimId: string | null;
+}
+
+export interface DropProgress {
+  id: string;
+  name: string;
+  requiredMinutes: number;
+  watchedMinutes: number;
+  // Present once the drop is earned and can be claimed
+  dropInstanceId: string | null;
+  claimed: boolean;
+}
+
+export interface DropCampaign {
+  id: string;
+  name: string;
+  gameName: string | null;
+  status: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface DropCampaignProgress {
+  id: string;
+  name: string;
+  gameName: string | null;
+  endsAt: Date;
+  drops: DropProgress[];
+}
+
+// One client per Twitch account; the factory receives the stored account
+export type TwitchClientFactory = (account: Account) => TwitchClient;
+
+interface HelixList<T> {
+  data: T[];
+}
+
+interface HelixPage<T> extends HelixList<T> {
+  // Absent on the last page
+  pagination: { cursor?: string };
+}
+
+interface HelixFollow {
+  broadcaster_id: string;
+  broadcaster_login: string;
+  broadcaster_name: string;
+  followed_at: string;
+}
+
+interface HelixStream {
+  id: string;
+  title: string;
+  game_name: string;
+}
+
+interface HelixUser {
+  id: string;
+  login: string;
+  display_name: string;
+  profile_image_url: string;
+}
+
+const DIRECTORY_PAGE_SIZE = 30;
+const HELIX_PAGE_SIZE = 100;
+
+// Directory URL slug Twitch derives from a game name, e.g. "Tom Clancy's
+// Rainbow Six Siege" -> "tom-clancys-rainbow-six-siege"
+export function gameSlug(gameName: string): string {
+  return gameName.toLowerCase().replace(/['’]/g, "").replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+// Where the web player reports events; embedded in the channel page or in
+// the settings script it loads
+const SPADE_URL_PATTERN = /"spade_url":"([^"]+)"/;
+const SETTINGS_SCRIPT_PATTERN = /(https:\/\/static\.twitchcdn\.net\/config\/settings\.[0-9a-f]+\.js)/;
+
+export class GqlTwitchClient implements TwitchClient {
+  private userId?: string;
+  private spadeUrl?: string;
+
+  constructor(private transport: TwitchTransport) {}
+
+  async getChannel(channelName: string): Promise<TwitchChannel | null> {
+    return this.findChannel({ login: channelName.toLowerCase() });
+  }
+
+  async getChannelById(channelId: string): Promise<TwitchChannel | null> {
+    return this.findChannel({ id: channelId });
+  }
+
+  private async findChannel(query: { login: string } | { id: string }): Promise<TwitchChannel | null> {
+    const users = await this.transport.helix<HelixList<HelixUser>>("/users", query);
+    const user = users.data[0];
+    if (!user) return null;
+
+    const streams = await this.transport.helix<HelixList<HelixStream>>("/streams", { user_id: user.id });
+    const stream = streams.data[0];
+    return {
+      id: user.id,
+      login: user.login,
+      displayName: user.display_name,
+      profileImage: user.profile_image_url,
+      live: !!stream,
+      broadcastId: stream?.id ?? null,
+      title: stream?.title || null,
+      category: stream?.game_name || null,
+    };
+  }
+
+  async getDropsStreams(gameName: string): Promise<TwitchChannel[]> {
+    const data = await this.transport.gql<DirectoryPageGameResponse>(DirectoryPageGame, {
+      slug: gameSlug(gameName),
+      options: { sort: "VIEWER_COUNT", systemFilters: ["DROPS_ENABLED"], tags: [] },
+      sortTypeIsRecency: false,
+      limit: DIRECTORY_PAGE_SIZE,
+    });
+
+    return (data.game?.streams?.edges ?? [])
+      .map(({ node }) => node)
+      .filter((stream) => stream.broadcaster)
+      .sort((a, b) => b.viewersCount - a.viewersCount)
+      .map((stream) => ({
+        id: stream.broadcaster!.id,
+        login: stream.broadcaster!.login,
+        displayName: stream.broadcaster!.displayName,
+        profileImage: stream.broadcaster!.profileImageURL,
+        live: true,
+        broadcastId: stream.id,
+        title: stream.title || null,
+        category: stream.game?.name ?? data.game!.name,
+      }));
+  }
+
+  async getChannelPointsContext(channelName: string): Promise<ChannelPointsState> {
+    const data = await this.transport.gql<ChannelPointsContextResponse>(ChannelPointsContext, {
+      channelLogin: channelName.toLowerCase(),
+    });
+    if (!data.community) {
+      throw new TwitchApiError(`Channel ${channelName} not found`);
+    }
+
+    const points = data.community.channel.self.communityPoints;
+    return {
+      channelId: data.community.channel.id,
+      balance: points.balance,
+      availableClaimId: points.availableClaim?.id ?? null,
+    };
+  }
+
+  async claimBonus(channelId: string, claimId: string): Promise<number> {
+    const data = await this.transport.gql<ClaimCommunityPointsResponse>(ClaimCommunityPoints, {
+      input: { channelID: channelId, claimID: claimId },
+    }, "claim");
+
+    const result = data.claimCommunityPoints;
+    if (result.error) {
+      throw new TwitchApiError(`ClaimCommunityPoints: ${result.error.code}`);
+    }
+    return result.currentPoints;
+  }
+
+  async makePrediction(eventId: string, outcomeId: string, points: number): Promise<void> {
+    const data = await this.transport.gql<MakePredictionResponse>(MakePrediction, {
+      input: {
+        eventID: eventId,
+        outcomeID: outcomeId,
+        points,
+        // Lets Twitch de-duplicate a retried request
+        transactionID: crypto.randomBytes(16).toString("hex"),
+      },
+    }, "claim");
+
+    if (data.makePrediction.error) {
+      throw new TwitchApiError(`MakePrediction: ${data.makePrediction.error.code}`);
+    }
+  }
+
+  async getDropsInventory(): Promise<DropCampaignProgress[]> {
+    const data = await this.transport.gql<InventoryResponse>(Inventory, { fetchRewardCampaigns: true });
+    const campaigns = data.currentUser?.inventory?.dropCampaignsInProgress ?? [];
+
+    return campaigns.map((campaign) => ({
+      id: campaign.id,
+      name: campaign.name,
+      gameName: campaign.game?.name ?? null,
+      endsAt: new Date(campaign.endAt),
+      drops: campaign.timeBasedDrops.map((drop) => ({
+        id: drop.id,
+        name: drop.name,
+        requiredMinutes: drop.requiredMinutesWatched,
+        watchedMinutes: drop.self?.currentMinutesWatched ?? 0,
+        dropInstanceId: drop.self?.dropInstanceID ?? null,
+        claimed: drop.self?.isClaimed ?? false,
+      })),
+    }));
+  }
+
+  async getDropCampaigns(): Promise<DropCampaign[]> {
+    const data = await this.transport.gql<ViewerDropsDashboardResponse>(ViewerDropsDashboard, {
+      fetchRewardCampaigns: false,
+    });
+
+    return (data.currentUser?.dropCampaigns ?? []).map((campaign) => ({
+      id: campaign.id,
+      name: campaign.name,
+      gameName: campaign.game?.name ?? null,
+      status: campaign.status,
+      startsAt: new Date(campaign.startAt),
+      endsAt: new Date(campaign.endAt),
+    }));
+  }
+
+  async claimDrop(dropInstanceId: string): Promise<void> {
+    const data = await this.transport.gql<DropsPageClaimDropRewardsResponse>(DropsPageClaimDropRewards, {
+      input: { dropInstanceID: dropInstanceId },
+    }, "claim");
+
+    const status = data.claimDropRewards?.status;
+    if (status !== "ELIGIBLE_FOR_ALL") {
+      throw new TwitchApiError(`DropsPage_ClaimDropRewards: ${status ?? "not claimable"}`);
+    }
+  }
+
+  async sendMinuteWatched(channel: TwitchChannel): Promise<boolean> {
+    if (!channel.live || !channel.broadcastId) return false;
+
+    const [userId, spadeUrl] = await Promise.all([
+      this.getUserId(),
+      this.getSpadeUrl(channel.login),
+    ]);
+
+    const accepted = await this.transport.spade(spadeUrl, [{
+      event: "minute-watched",
+      properties: {
+        channel_id: channel.id,
+        broadcast_id: channel.broadcastId,
+        player: "site",
+        user_id: userId,
+        live: true,
+        channel: channel.login,
+      },
+    }]);
+
+    // The endpoint rotates; resolve it again after a rejection
+    if (!accepted) this.spadeUrl = undefined;
+    return accepted;
+  }
+
+  async getPubSubAuth(): Promise<{ userId: string, authToken: string, proxy: string | null }> {
+    return { userId: await this.getUserId(), authToken: this.transport.token, proxy: this.transport.proxyUrl };
+  }
+
+  async getFollowedChannels(): Promise<FollowedChannel[]> {
+    const userId = await this.getUserId();
+    const follows: FollowedChannel[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.transport.helix<HelixPage<HelixFollow>>("/channels/followed", {
+        user_id: userId,
+        first: String(HELIX_PAGE_SIZE),
+        ...(cursor ? { after: cursor } : {}),
+      });
+      follows.push(...page.data.map((follow) => ({
+        id: follow.broadcaster_id,
+        login: follow.broadcaster_login,
+        displayName: follow.broadcaster_name,
+        followedAt: new Date(follow.followed_at),
+      })));
+      cursor = page.pagination.cursor;
+    } while (cursor);
+
+    return follows;
+  }
+
+  // Twitch user id of the account the token belongs to
+  private async getUserId(): Promise<string> {
+    if (!this.userId) {
+      const users = await this.transport.helix<HelixList<HelixUser>>("/users");
+      if (!users.data[0]) {
+        throw new TwitchAuthError("Could not resolve the Twitch user for the account's token");
+      }
+      this.userId = users.data[0].id;
+    }
+    return this.userId;
+  }
+
+  private async getSpadeUrl(channelLogin: string): Promise<string> {
+    if (!this.spadeUrl) {
+      const page = await this.transport.page(`/${channelLogin}`);
+      let match = page.match(SPADE_URL_PATTERN);
+      if (!match) {
+        const settingsUrl = page.match(SETTINGS_SCRIPT_PATTERN)?.[1];
+        if (settingsUrl) {
+          match = (await this.transport.page(settingsUrl)).match(SPADE_URL_PATTERN);
+        }
+      }
+      if (!match) {
+        throw new TwitchApiError(`Could not find the spade endpoint on ${channelLogin}'s channel page`);
+      }
+      this.spadeUrl = match[1];
+    }
+    return this.spadeUrl;
+  }
+}
+
+export function createTwitchClient(account: Account, config?: TwitchTransportConfig): TwitchClient {
+  const token = parseAuthToken(account.authType, decryptAccountCredentials(account));
+  if (!token) {
+    throw new TwitchAuthError(`No auth token found in the credentials for ${account.name}`);
+  }
+  return new GqlTwitchClient(new TwitchTransport(token, account.id, account.proxy, config));
+}
@@ -0,0 +1,131 @@
+import type { GqlOperation } from "./transport";
+
+/**
+ * Persisted GQL operations used by the farm, as registered by the Twitch
+ * web client. Response shapes are trimmed to the fields we read.
+ */
+
+export const ChannelPointsContext: GqlOperation = {
+  operationName: "ChannelPointsContext",
+  sha256Hash: "1530a003a7d374b0380b79db0be0534f30ff46e61cffa2bc0e2468a909fbc024",
+};
+
+export interface ChannelPointsContextResponse {
+  community: {
+    id: string;
+    channel: {
+      id: string;
+      self: {
+        communityPoints: {
+          balance: number;
+          availableClaim: { id: string } | null;
+        };
+      };
+    };
+  } | null;
+}
+
+export const ClaimCommunityPoints: GqlOperation = {
+  operationName: "ClaimCommunityPoints",
+  sha256Hash: "46aaeebe02c99afdf4fc97c7c0cba964124bf6b0af229395f1f6d1feed05b3d0",
+};
+
+export interface ClaimCommunityPointsResponse {
+  claimCommunityPoints: {
+    claim: { id: string } | null;
+    currentPoints: number;
+    error: { code: string } | null;
+  };
+}
+
+export const MakePrediction: GqlOperation = {
+  operationName: "MakePrediction",
+  sha256Hash: "b44682ecc88358817009f20e69d75081b1e58825bb40aa53d5dbadcc17c881d8",
+};
+
+export interface MakePredictionResponse {
+  makePrediction: {
+    error: { code: string } | null;
+  };
+}
+
+export const Inventory: GqlOperation = {
+  operationName: "Inventory",
+  sha256Hash: "37fea486d6179047c41d0f549088a4c3a7dd60c05c70956a1490262f532dccd9",
+};
+
+export interface InventoryResponse {
+  currentUser: {
+    inventory: {
+      dropCampaignsInProgress: {
+        id: string;
+        name: string;
+        status: string;
+        endAt: string;
+        game: { id: string, name: string } | null;
+        timeBasedDrops: {
+          id: string;
+          name: string;
+          requiredMinutesWatched: number;
+          self: {
+            currentMinutesWatched: number;
+            dropInstanceID: string | null;
+            isClaimed: boolean;
+          } | null;
+        }[];
+      }[] | null;
+    } | null;
+  } | null;
+}
+
+export const ViewerDropsDashboard: GqlOperation = {
+  operationName: "ViewerDropsDashboard",
+  sha256Hash: "8d5d9b5e3f088f9d1ff39eb2caab11f7a4cf7a3353da9ce82b5778226ff37268",
+};
+
+export interface ViewerDropsDashboardResponse {
+  currentUser: {
+    dropCampaigns: {
+      id: string;
+      name: string;
+      status: string; // ACTIVE, UPCOMING, EXPIRED
+      startAt: string;
+      endAt: string;
+      game: { id: string, name: string } | null;
+    }[] | null;
+  } | null;
+}
+
+export const DropsPageClaimDropRewards: GqlOperation = {
+  operationName: "DropsPage_ClaimDropRewards",
+  sha256Hash: "a455deea71bdc9015b78eb49f4acfbce8baa7ccbedd28e549bb025bd0f751930",
+};
+
+export interface DropsPageClaimDropRewardsResponse {
+  claimDropRewards: {
+    status: string; // ELIGIBLE_FOR_ALL on success
+  } | null;
+}
+
+export const DirectoryPageGame: GqlOperation = {
+  operationName: "DirectoryPage_Game",
+  sha256Hash: "c7c9d5aad09155c4161d2382092dc44610367f3536aac39019ec2582ae5065f9",
+};
+
+export interface DirectoryPageGameResponse {
+  game: {
+    id: string;
+    name: string;
+    streams: {
+      edges: {
+        node: {
+          id: string;
+          title: string;
+          viewersCount: number;
+          broadcaster: { id: string, login: string, displayName: string, profileImageURL: string } | null;
+          game: { id: string, name: string } | null;
+        };
+      }[];
+    } | null;
+  } | null;
+}
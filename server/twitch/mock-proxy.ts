@@ -0,0 +1,173 @@
+/**
+ * Local stand-in for an account proxy, for exercising per-account proxies
+ * without a real one. One port speaks both HTTP CONNECT and SOCKS5 (told
+ * apart by the first byte) and tunnels to wherever it's asked.
+ *
+ *   npm run twitch:proxy                       # port TWITCH_PROXY_PORT or 5055
+ *   http://localhost:5055 or socks5://localhost:5055 as the account's proxy
+ *
+ * TWITCH_PROXY_AUTH=user:password makes it require those credentials. Every
+ * tunnel's target is recorded, so tests can see what went through it.
+ */
+import net from "net";
+import { pathToFileURL } from "url";
+
+const DEFAULT_PORT = 5055;
+
+export interface MockProxyOptions {
+  // Required credentials; any client is accepted without them
+  username?: string;
+  password?: string;
+}
+
+export interface MockProxyState {
+  // "host:port" of every tunnel opened, in order
+  tunnels: string[];
+}
+
+// Reads one handshake message; anything after it is left on the socket
+function readUntil(socket: net.Socket, complete: (data: Buffer) => number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let data = Buffer.alloc(0);
+    const onData = (chunk: Buffer) => {
+      data = Buffer.concat([data, chunk]);
+      const length = complete(data);
+      if (length < 0) return;
+      socket.off("data", onData);
+      socket.off("error", reject);
+      socket.pause();
+      if (data.length > length) socket.unshift(data.subarray(length));
+      resolve(data.subarray(0, length));
+    };
+    socket.on("data", onData);
+    socket.once("error", reject);
+    socket.resume();
+  });
+}
+
+function pipeTo(client: net.Socket, target: string, state: MockProxyState, onConnect: () => void, onError: () => void) {
+  const separator = target.lastIndexOf(":");
+  const host = target.slice(0, separator).replace(/^\[|\]$/g, "");
+  const port = Number(target.slice(separator + 1));
+
+  let connected = false;
+  const upstream = net.connect(port, host, () => {
+    connected = true;
+    state.tunnels.push(target);
+    onConnect();
+    client.pipe(upstream).pipe(client);
+    client.resume();
+  });
+  upstream.on("error", () => {
+    if (!connected) onError();
+    client.destroy();
+  });
+  client.on("error", () => upstream.destroy());
+  client.on("close", () => upstream.destroy());
+}
+
+async function handleHttp(client: net.Socket, options: MockProxyOptions, state: MockProxyState) {
+  const message = await readUntil(client, (data) => {
+    const end = data.indexOf("\r\n\r\n");
+    return end < 0 ? -1 : end + 4;
+  });
+  const [requestLine, ...headerLines] = message.toString("latin1").split("\r\n");
+  const [method, target] = requestLine.split(" ");
+  if (method !== "CONNECT") {
+    client.end("HTTP/1.1 405 Method Not Allowed\r\n\r\n");
+    return;
+  }
+
+  if (options.username) {
+    const expected = `Basic ${Buffer.from(`${options.username}:${options.password ?? ""}`).toString("base64")}`;
+    const authorization = headerLines
+      .find((line) => line.toLowerCase().startsWith("proxy-authorization:"))
+      ?.slice("proxy-authorization:".length).trim();
+    if (authorization !== expected) {
+      client.end("HTTP/1.1 407 Proxy Authentication Required\r\nProxy-Authenticate: Basic\r\n\r\n");
+      return;
+    }
+  }
+
+  pipeTo(client, target, state,
+    () => client.write("HTTP/1.1 200 Connection Established\r\n\r\n"),
+    () => client.end("HTTP/1.1 502 Bad Gateway\r\n\r\n"));
+}
+
+async function handleSocks5(client: net.Socket, options: MockProxyOptions, state: MockProxyState) {
+  const greeting = await readUntil(client, (data) => data.length >= 2 && data.length >= 2 + data[1] ? 2 + data[1] : -1);
+  const methods = Array.from(greeting.subarray(2));
+  const method = options.username ? 2 : 0;
+  if (!methods.includes(method)) {
+    client.end(Buffer.from([5, 0xff]));
+    return;
+  }
+  client.write(Buffer.from([5, method]));
+
+  if (method === 2) {
+    const message = await readUntil(client, (data) => {
+      if (data.length < 2) return -1;
+      const passwordAt = 2 + data[1];
+      if (data.length < passwordAt + 1) return -1;
+      const length = passwordAt + 1 + data[passwordAt];
+      return data.length >= length ? length : -1;
+    });
+    const username = message.subarray(2, 2 + message[1]).toString();
+    const password = message.subarray(3 + message[1]).toString();
+    const ok = username === options.username && password === (options.password ?? "");
+    if (!ok) {
+      client.end(Buffer.from([1, 1]));
+      return;
+    }
+    client.write(Buffer.from([1, 0]));
+  }
+
+  const request = await readUntil(client, (data) => {
+    if (data.length < 5) return -1;
+    const address = data[3] === 1 ? 4 : data[3] === 4 ? 16 : 1 + data[4];
+    const length = 4 + address + 2;
+    return data.length >= length ? length : -1;
+  });
+  const reply = (status: number) => Buffer.from([5, status, 0, 1, 0, 0, 0, 0, 0, 0]);
+  if (request[1] !== 1) {
+    client.end(reply(7));
+    return;
+  }
+
+  let host: string;
+  if (request[3] === 1) host = Array.from(request.subarray(4, 8)).join(".");
+  else if (request[3] === 3) host = request.subarray(5, 5 + request[4]).toString();
+  else {
+    client.end(reply(8));
+    return;
+  }
+  const port = request.readUInt16BE(request.length - 2);
+
+  pipeTo(client, `${host}:${port}`, state, () => client.write(reply(0)), () => client.end(reply(5)));
+}
+
+export function startMockProxy(port = DEFAULT_PORT, options: MockProxyOptions = {}): Promise<{ server: net.Server, state: MockProxyState }> {
+  const state: MockProxyState = { tunnels: [] };
+
+  const server = net.createServer((client) => {
+    client.once("data", (first: Buffer) => {
+      client.pause();
+      client.unshift(first);
+      const handle = first[0] === 5 ? handleSocks5 : handleHttp;
+      handle(client, options, state).catch(() => client.destroy());
+    });
+    client.on("error", () => client.destroy());
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, () => resolve({ server, state }));
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.TWITCH_PROXY_PORT) || DEFAULT_PORT;
+  const [username, ...password] = process.env.TWITCH_PROXY_AUTH?.split(":") ?? [];
+  startMockProxy(port, { username, password: password.join(":") }).then(() => {
+    console.log(`Mock proxy listening on localhost:${port} (HTTP CONNECT and SOCKS5)`);
+  });
+}
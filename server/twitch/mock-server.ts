@@ -0,0 +1,817 @@
+/**
+ * Local stand-in for the Twitch GQL, Helix and PubSub endpoints the farm
+ * uses, for development and tests without a real Twitch account.
+ *
+ *   npm run twitch:mock                                # port TWITCH_MOCK_PORT or 5050
+ *   TWITCH_API_BASE=http://localhost:5050 npm run dev
+ *
+ * Every login resolves to a channel, except that Helix reports logins
+ * containing "missing" as nonexistent; logins containing "offline" start
+ * offline. Renamed channels keep their id. The token "invalid" is rejected
+ * with 401 so credential failures can be exercised. Accepted minute-watched
+ * heartbeats advance the active drop campaigns. State lives in memory and
+ * can be driven through the /mock endpoints (rename, toggle live, set title,
+ * category, viewers and whether drops are enabled, start, lock, resolve
+ * and cancel predictions, replace follows and drop campaigns, publish PubSub messages, force
+ * PubSub reconnects, inspect state). Live channels the mock has seen are
+ * listed in their category's game directory. Every user follows
+ * DEFAULT_FOLLOWS until told otherwise. Going live or offline, new
+ * bonus chests and every change to a prediction (created, bet on, locked,
+ * resolved, canceled) are also pushed to PubSub listeners at /pubsub.
+ * Predictions lock by themselves when their window ends and pay winning
+ * bets out of the whole pool, as Twitch does.
+ */
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import express, { type Request, type Response, type NextFunction } from "express";
+import type { Server } from "http";
+import { pathToFileURL } from "url";
+import { WebSocket, WebSocketServer } from "ws";
+
+const DEFAULT_PORT = 5050;
+const BONUS_POINTS = 50;
+const STARTING_BALANCE = 1000;
+const MAX_PUBSUB_TOPICS = 50;
+const DEFAULT_FOLLOWS = ["mock_streamer_1", "mock_streamer_2", "mock_streamer_3"];
+
+export interface MockTwitchOptions {
+  // Time until a new bonus chest appears after one is claimed
+  claimIntervalMs?: number;
+  // Drop campaigns to serve instead of the single default one
+  campaigns?: MockCampaign[];
+}
+
+interface MockChannel {
+  id: string;
+  login: string;
+  displayName: string;
+  profileImage: string;
+  live: boolean;
+  title: string;
+  category: string;
+  viewers: number;
+  // Listed by the game directory's drops-enabled filter
+  dropsEnabled: boolean;
+  // Bumped each time the channel goes live, so every broadcast has its own id
+  broadcasts: number;
+}
+
+interface MockWallet {
+  balance: number;
+  claimId: string | null;
+  nextClaimAt: number;
+}
+
+interface MockPrediction {
+  id: string;
+  channelId: string;
+  title: string;
+  status: "ACTIVE" | "LOCKED" | "RESOLVED" | "CANCELED";
+  createdAt: string;
+  windowSeconds: number;
+  outcomes: { id: string, title: string, totalPoints: number, totalUsers: number }[];
+  winningOutcomeId: string | null;
+  // Bets by token
+  bets: Record<string, { outcomeId: string, points: number }>;
+}
+
+// An outcome title, or a title with the points and users already on it
+export type MockOutcome = string | { title: string, totalPoints?: number, totalUsers?: number };
+
+export interface MockDrop {
+  id: string;
+  name: string;
+  requiredMinutesWatched: number;
+  currentMinutesWatched: number;
+  isClaimed: boolean;
+}
+
+export interface MockCampaign {
+  id: string;
+  name: string;
+  game: { id: string, name: string };
+  status: "ACTIVE" | "UPCOMING" | "EXPIRED";
+  startAt: string;
+  endAt: string;
+  drops: MockDrop[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function defaultCampaigns(): MockCampaign[] {
+  return [{
+    id: "mock-campaign",
+    name: "Mock Campaign",
+    game: { id: "mock-game", name: "Mock Game" },
+    status: "ACTIVE",
+    startAt: new Date(Date.now() - DAY_MS).toISOString(),
+    endAt: new Date(Date.now() + 7 * DAY_MS).toISOString(),
+    drops: [{
+      id: "mock-drop",
+      name: "Mock Drop",
+      requiredMinutesWatched: 60,
+      currentMinutesWatched: 0,
+      isClaimed: false,
+    }],
+  }];
+}
+
+// Fills in defaults so tests can describe campaigns briefly
+function toMockCampaign(input: Partial<MockCampaign> & { drops?: Partial<MockDrop>[] }): MockCampaign {
+  const [campaign] = defaultCampaigns();
+  return {
+    ...campaign,
+    ...input,
+    id: input.id ?? randomId(),
+    drops: (input.drops ?? [{}]).map((drop: Partial<MockDrop>) => ({
+      id: randomId(),
+      name: "Mock Drop",
+      requiredMinutesWatched: 60,
+      currentMinutesWatched: 0,
+      isClaimed: false,
+      ...drop,
+    })),
+  };
+}
+
+const randomId = () => crypto.randomUUID();
+
+const slugFor = (gameName: string) =>
+  gameName.toLowerCase().replace(/['’]/g, "").replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+function channelIdFor(login: string): string {
+  return String(parseInt(crypto.createHash("md5").update(login).digest("hex").slice(0, 8), 16));
+}
+
+export class MockTwitchState {
+  channels = new Map<string, MockChannel>();
+  predictions = new Map<string, MockPrediction>();
+  campaigns: MockCampaign[];
+  // Accepted minute-watched heartbeats per channel login
+  minutesWatched = new Map<string, number>();
+  // Followed channel logins by user id, most recent first
+  private follows = new Map<string, string[]>();
+  // Keyed by token and channel id: each account has its own balance per channel
+  private wallets = new Map<string, MockWallet>();
+  // "message" (topic, message) and "reconnect" events for PubSub connections
+  readonly pubsub = new EventEmitter();
+  // PubSub connections opened so far, so tests can see reconnects
+  pubsubConnections = 0;
+  // Open PubSub connections listening to each topic, so tests can wait for a LISTEN
+  pubsubListeners = new Map<string, number>();
+  // Off to leave PINGs unanswered, like a dead connection
+  answerPubSubPings = true;
+
+  constructor(private claimIntervalMs = 15 * 60 * 1000, campaigns?: MockCampaign[]) {
+    this.campaigns = campaigns ?? defaultCampaigns();
+  }
+
+  setCampaigns(campaigns: (Partial<MockCampaign> & { drops?: Partial<MockDrop>[] })[]): MockCampaign[] {
+    this.campaigns = campaigns.map(toMockCampaign);
+    return this.campaigns;
+  }
+
+  // The user a token belongs to, as Helix reports it
+  userFor(token: string): MockChannel {
+    return this.channel(`user_${channelIdFor(token)}`);
+  }
+
+  followsOf(userId: string): MockChannel[] {
+    return (this.follows.get(userId) ?? DEFAULT_FOLLOWS).map((login) => this.channel(login));
+  }
+
+  setFollows(token: string, logins: string[]): MockChannel[] {
+    this.follows.set(this.userFor(token).id, logins.map((login) => login.toLowerCase()));
+    return this.followsOf(this.userFor(token).id);
+  }
+
+  publish(topic: string, message: object): void {
+    this.pubsub.emit("message", topic, message);
+  }
+
+  setLive(login: string, live: boolean): MockChannel {
+    const channel = this.channel(login);
+    if (channel.live !== live) {
+      channel.live = live;
+      if (live) channel.broadcasts++;
+      this.publish(`video-playback-by-id.${channel.id}`, {
+        type: live ? "stream-up" : "stream-down",
+        server_time: Date.now() / 1000,
+      });
+    }
+    return channel;
+  }
+
+  // Moves a channel to a new login; its id and state stay the same
+  rename(login: string, newLogin: string): MockChannel {
+    const channel = this.channel(login);
+    const key = newLogin.toLowerCase();
+    this.channels.delete(channel.login);
+    channel.login = key;
+    channel.displayName = newLogin;
+    this.channels.set(key, channel);
+    return channel;
+  }
+
+  channel(login: string): MockChannel {
+    const key = login.toLowerCase();
+    let channel = this.channels.get(key);
+    if (!channel) {
+      channel = {
+        id: channelIdFor(key),
+        login: key,
+        displayName: key,
+        profileImage: `https://static-cdn.jtvnw.net/user-default-pictures-uv/${channelIdFor(key)}-profile_image-300x300.png`,
+        live: !key.includes("offline"),
+        title: `${key} mock stream`,
+        category: "Just Chatting",
+        viewers: 100,
+        dropsEnabled: true,
+        broadcasts: 1,
+      };
+      this.channels.set(key, channel);
+    }
+    return channel;
+  }
+
+  broadcastId(channel: MockChannel): string {
+    return `stream-${channel.id}-${channel.broadcasts}`;
+  }
+
+  // Counts a heartbeat if it names a live channel's current broadcast
+  recordMinuteWatched(properties: Record<string, any>): boolean {
+    const channel = this.channelById(String(properties.channel_id));
+    if (!channel?.live || properties.broadcast_id !== this.broadcastId(channel)) return false;
+
+    this.minutesWatched.set(channel.login, (this.minutesWatched.get(channel.login) ?? 0) + 1);
+    const running = this.campaigns.filter((campaign) => campaign.status === "ACTIVE");
+    for (const drop of running.flatMap((campaign) => campaign.drops)) {
+      drop.currentMinutesWatched = Math.min(drop.currentMinutesWatched + 1, drop.requiredMinutesWatched);
+    }
+    return true;
+  }
+
+  channelById(id: string): MockChannel | undefined {
+    return Array.from(this.channels.values()).find((channel) => channel.id === id);
+  }
+
+  wallet(token: string, channelId: string): MockWallet {
+    const key = `${token}:${channelId}`;
+    let wallet = this.wallets.get(key);
+    if (!wallet) {
+      wallet = { balance: STARTING_BALANCE, claimId: null, nextClaimAt: 0 };
+      this.wallets.set(key, wallet);
+    }
+    // A bonus chest only shows up while the channel is live
+    if (!wallet.claimId && Date.now() >= wallet.nextClaimAt && this.channelById(channelId)?.live) {
+      wallet.claimId = randomId();
+    }
+    return wallet;
+  }
+
+  claim(token: string, channelId: string, claimId: string): MockWallet | null {
+    const wallet = this.wallet(token, channelId);
+    if (wallet.claimId !== claimId) return null;
+
+    wallet.balance += BONUS_POINTS;
+    wallet.claimId = null;
+    wallet.nextClaimAt = Date.now() + this.claimIntervalMs;
+    setTimeout(() => this.offerClaim(token, channelId), this.claimIntervalMs).unref();
+    return wallet;
+  }
+
+  // Puts out the next bonus chest and tells the account's PubSub listeners
+  private offerClaim(token: string, channelId: string): void {
+    const wallet = this.wallet(token, channelId);
+    if (!wallet.claimId) return;
+
+    this.publish(`community-points-user-v1.${this.userFor(token).id}`, {
+      type: "claim-available",
+      data: { claim: { id: wallet.claimId, channel_id: channelId } },
+    });
+  }
+
+  startPrediction(login: string, title: string, outcomes: MockOutcome[], windowSeconds = 120): MockPrediction {
+    const prediction: MockPrediction = {
+      id: randomId(),
+      channelId: this.channel(login).id,
+      title,
+      status: "ACTIVE",
+      createdAt: new Date().toISOString(),
+      windowSeconds,
+      outcomes: outcomes.map((outcome) => typeof outcome === "string"
+        ? { id: randomId(), title: outcome, totalPoints: 0, totalUsers: 0 }
+        : { id: randomId(), title: outcome.title, totalPoints: outcome.totalPoints ?? 0, totalUsers: outcome.totalUsers ?? 0 }),
+      winningOutcomeId: null,
+      bets: {},
+    };
+    this.predictions.set(prediction.id, prediction);
+    this.publishPrediction(prediction, "event-created");
+    setTimeout(() => this.lockPrediction(prediction.id), windowSeconds * 1000).unref();
+    return prediction;
+  }
+
+  // Returns an error code as MakePrediction would, or null once the bet is in
+  bet(token: string, predictionId: string, outcomeId: string, points: number): string | null {
+    const prediction = this.predictions.get(predictionId);
+    const outcome = prediction?.outcomes.find((o) => o.id === outcomeId);
+    if (!prediction || !outcome) return "EVENT_NOT_FOUND";
+    if (prediction.status !== "ACTIVE") return "EVENT_LOCKED";
+
+    const previous = prediction.bets[token];
+    if (previous && previous.outcomeId !== outcomeId) return "ALREADY_PREDICTED_DIFFERENT_OUTCOME";
+    const wallet = this.wallet(token, prediction.channelId);
+    if (points > wallet.balance) return "NOT_ENOUGH_POINTS";
+
+    wallet.balance -= points;
+    outcome.totalPoints += points;
+    if (!previous) outcome.totalUsers += 1;
+    prediction.bets[token] = { outcomeId, points: (previous?.points ?? 0) + points };
+    this.publishPrediction(prediction, "event-updated");
+    return null;
+  }
+
+  lockPrediction(id: string): MockPrediction | undefined {
+    const prediction = this.predictions.get(id);
+    if (prediction?.status !== "ACTIVE") return prediction;
+
+    prediction.status = "LOCKED";
+    this.publishPrediction(prediction, "event-updated");
+    return prediction;
+  }
+
+  // Pays every bet on the winning outcome its share of the whole pool
+  resolvePrediction(id: string, outcomeId: string): MockPrediction | undefined {
+    const prediction = this.predictions.get(id);
+    const winner = prediction?.outcomes.find((o) => o.id === outcomeId);
+    if (!prediction || !winner || prediction.status === "RESOLVED" || prediction.status === "CANCELED") return undefined;
+
+    const pool = prediction.outcomes.reduce((sum, outcome) => sum + outcome.totalPoints, 0);
+    for (const [token, bet] of Object.entries(prediction.bets)) {
+      if (bet.outcomeId === outcomeId) {
+        this.wallet(token, prediction.channelId).balance += Math.floor(bet.points * pool / winner.totalPoints);
+      }
+    }
+    prediction.status = "RESOLVED";
+    prediction.winningOutcomeId = outcomeId;
+    this.publishPrediction(prediction, "event-updated");
+    return prediction;
+  }
+
+  // Refunds every bet
+  cancelPrediction(id: string): MockPrediction | undefined {
+    const prediction = this.predictions.get(id);
+    if (!prediction || prediction.status === "RESOLVED" || prediction.status === "CANCELED") return undefined;
+
+    for (const [token, bet] of Object.entries(prediction.bets)) {
+      this.wallet(token, prediction.channelId).balance += bet.points;
+    }
+    prediction.status = "CANCELED";
+    this.publishPrediction(prediction, "event-updated");
+    return prediction;
+  }
+
+  private publishPrediction(prediction: MockPrediction, type: "event-created" | "event-updated"): void {
+    this.publish(`predictions-channel-v1.${prediction.channelId}`, {
+      type,
+      data: {
+        event: {
+          id: prediction.id,
+          title: prediction.title,
+          status: prediction.status,
+          created_at: prediction.createdAt,
+          prediction_window_seconds: prediction.windowSeconds,
+          outcomes: prediction.outcomes.map((outcome) => ({
+            id: outcome.id,
+            title: outcome.title,
+            total_points: outcome.totalPoints,
+            total_users: outcome.totalUsers,
+          })),
+          winning_outcome_id: prediction.winningOutcomeId,
+        },
+      },
+    });
+  }
+}
+
+type GqlRequest = { operationName: string, variables?: Record<string, any> };
+type GqlResult = { data?: unknown, errors?: { message: string }[] };
+
+function gqlError(message: string): GqlResult {
+  return { errors: [{ message }] };
+}
+
+function resolveOperation(state: MockTwitchState, token: string, { operationName, variables = {} }: GqlRequest): GqlResult {
+  switch (operationName) {
+    case "ChannelPointsContext": {
+      const channel = state.channel(variables.channelLogin);
+      const wallet = state.wallet(token, channel.id);
+      return {
+        data: {
+          community: {
+            id: channel.id,
+            channel: {
+              id: channel.id,
+              self: {
+                communityPoints: {
+                  balance: wallet.balance,
+                  availableClaim: wallet.claimId ? { id: wallet.claimId } : null,
+                },
+              },
+            },
+          },
+        },
+      };
+    }
+
+    case "ClaimCommunityPoints": {
+      const { channelID, claimID } = variables.input ?? {};
+      const wallet = state.claim(token, channelID, claimID);
+      return {
+        data: {
+          claimCommunityPoints: wallet
+            ? { claim: { id: claimID }, currentPoints: wallet.balance, error: null }
+            : { claim: null, currentPoints: 0, error: { code: "NOT_FOUND" } },
+        },
+      };
+    }
+
+    case "MakePrediction": {
+      const { eventID, outcomeID, points } = variables.input ?? {};
+      const code = state.bet(token, eventID, outcomeID, points);
+      return { data: { makePrediction: { error: code ? { code } : null } } };
+    }
+
+    case "Inventory":
+      return {
+        data: {
+          currentUser: {
+            inventory: {
+              // A campaign shows up in the inventory once watching it has started
+              dropCampaignsInProgress: state.campaigns.filter((campaign) =>
+                campaign.status === "ACTIVE" && campaign.drops.some((drop) => drop.currentMinutesWatched > 0)
+              ).map((campaign) => ({
+                id: campaign.id,
+                name: campaign.name,
+                status: campaign.status,
+                endAt: campaign.endAt,
+                game: campaign.game,
+                timeBasedDrops: campaign.drops.map((drop) => ({
+                  id: drop.id,
+                  name: drop.name,
+                  requiredMinutesWatched: drop.requiredMinutesWatched,
+                  self: {
+                    currentMinutesWatched: drop.currentMinutesWatched,
+                    dropInstanceID: drop.currentMinutesWatched >= drop.requiredMinutesWatched && !drop.isClaimed
+                      ? `${drop.id}-instance`
+                      : null,
+                    isClaimed: drop.isClaimed,
+                  },
+                })),
+              })),
+            },
+          },
+        },
+      };
+
+    case "ViewerDropsDashboard":
+      return {
+        data: {
+          currentUser: {
+            dropCampaigns: state.campaigns.map((campaign) => ({
+              id: campaign.id,
+              name: campaign.name,
+              status: campaign.status,
+              startAt: campaign.startAt,
+              endAt: campaign.endAt,
+              game: campaign.game,
+            })),
+          },
+        },
+      };
+
+    // Only channels the mock has seen can show up in a directory
+    case "DirectoryPage_Game": {
+      const dropsOnly = (variables.options?.systemFilters ?? []).includes("DROPS_ENABLED");
+      const streams = Array.from(state.channels.values())
+        .filter((channel) => channel.live && slugFor(channel.category) === variables.slug)
+        .filter((channel) => !dropsOnly || channel.dropsEnabled)
+        .sort((a, b) => b.viewers - a.viewers)
+        .slice(0, variables.limit ?? 30);
+      return {
+        data: {
+          game: streams.length === 0 ? null : {
+            id: `game-${variables.slug}`,
+            name: streams[0].category,
+            streams: {
+              edges: streams.map((channel) => ({
+                node: {
+                  id: state.broadcastId(channel),
+                  title: channel.title,
+                  viewersCount: channel.viewers,
+                  broadcaster: {
+                    id: channel.id,
+                    login: channel.login,
+                    displayName: channel.displayName,
+                    profileImageURL: channel.profileImage,
+                  },
+                  game: { id: `game-${variables.slug}`, name: channel.category },
+                },
+              })),
+            },
+          },
+        },
+      };
+    }
+
+    case "DropsPage_ClaimDropRewards": {
+      const instanceId = variables.input?.dropInstanceID;
+      const drop = state.campaigns.flatMap((campaign) => campaign.drops)
+        .find((d) => `${d.id}-instance` === instanceId);
+
+      if (!drop || drop.currentMinutesWatched < drop.requiredMinutesWatched) {
+        return { data: { claimDropRewards: null } };
+      }
+      if (drop.isClaimed) {
+        return { data: { claimDropRewards: { status: "DROP_INSTANCE_ALREADY_CLAIMED" } } };
+      }
+      drop.isClaimed = true;
+      return { data: { claimDropRewards: { status: "ELIGIBLE_FOR_ALL" } } };
+    }
+
+    default:
+      return gqlError("PersistedQueryNotFound");
+  }
+}
+
+// Accepts "OAuth <token>" (GQL) and "Bearer <token>" (Helix)
+function requireToken(req: Request, res: Response, next: NextFunction) {
+  const token = req.header("authorization")?.replace(/^(OAuth|Bearer)\s+/i, "");
+  if (!token || token === "invalid") {
+    return res.status(401).json({ error: "Unauthorized", status: 401, message: "Invalid OAuth token" });
+  }
+  res.locals.token = token;
+  next();
+}
+
+export function createMockTwitchApp(options: MockTwitchOptions = {}) {
+  const state = new MockTwitchState(options.claimIntervalMs, options.campaigns);
+  const app = express();
+  app.use(express.json());
+
+  app.post("/gql", requireToken, (req, res) => {
+    const token = res.locals.token as string;
+    // The web client batches operations as a JSON array
+    if (Array.isArray(req.body)) {
+      return res.json(req.body.map((operation: GqlRequest) => resolveOperation(state, token, operation)));
+    }
+    res.json(resolveOperation(state, token, req.body));
+  });
+
+  app.get("/helix/users", requireToken, (req, res) => {
+    const login = req.query.login ? String(req.query.login) : undefined;
+    // Without a login or id Helix returns the user the token belongs to
+    const channel = req.query.id
+      ? state.channelById(String(req.query.id))
+      : login ? (login.includes("missing") ? undefined : state.channel(login)) : state.userFor(res.locals.token);
+    res.json({
+      data: !channel ? [] : [{
+        id: channel.id,
+        login: channel.login,
+        display_name: channel.displayName,
+        profile_image_url: channel.profileImage,
+      }],
+    });
+  });
+
+  app.get("/helix/streams", requireToken, (req, res) => {
+    const channel = req.query.user_id
+      ? state.channelById(String(req.query.user_id))
+      : req.query.user_login ? state.channel(String(req.query.user_login)) : undefined;
+
+    res.json({
+      data: channel?.live ? [{
+        id: state.broadcastId(channel),
+        user_id: channel.id,
+        user_login: channel.login,
+        type: "live",
+        title: channel.title,
+        game_name: channel.category,
+      }] : [],
+    });
+  });
+
+  app.get("/helix/channels/followed", requireToken, (req, res) => {
+    // Only the token's own follows are readable
+    if (req.query.user_id !== state.userFor(res.locals.token).id) {
+      return res.status(401).json({ error: "Unauthorized", status: 401, message: "user_id must match the token" });
+    }
+
+    const follows = state.followsOf(String(req.query.user_id));
+    const first = Math.min(Number(req.query.first) || 20, 100);
+    const start = Number(req.query.after) || 0;
+    const page = follows.slice(start, start + first);
+    res.json({
+      total: follows.length,
+      data: page.map((channel, index) => ({
+        broadcaster_id: channel.id,
+        broadcaster_login: channel.login,
+        broadcaster_name: channel.displayName,
+        followed_at: new Date(Date.now() - (start + index) * 60_000).toISOString(),
+      })),
+      pagination: start + first < follows.length ? { cursor: String(start + first) } : {},
+    });
+  });
+
+  app.post("/spade", express.urlencoded({ extended: false }), (req, res) => {
+    let events: { event: string, properties: Record<string, any> }[];
+    try {
+      events = JSON.parse(Buffer.from(String(req.body.data ?? ""), "base64").toString("utf8"));
+    } catch {
+      return res.status(400).end();
+    }
+
+    const accepted = Array.isArray(events) && events.every((event) =>
+      event.event === "minute-watched" && state.recordMinuteWatched(event.properties ?? {})
+    );
+    res.status(accepted ? 204 : 400).end();
+  });
+
+  // Test controls
+  app.get("/mock/state", (_req, res) => {
+    res.json({
+      channels: Array.from(state.channels.values()),
+      predictions: Array.from(state.predictions.values()),
+      campaigns: state.campaigns,
+      minutesWatched: Object.fromEntries(state.minutesWatched),
+    });
+  });
+
+  app.patch("/mock/channels/:login", (req, res) => {
+    const channel = state.channel(req.params.login);
+    if (typeof req.body.login === "string") state.rename(channel.login, req.body.login);
+    if (typeof req.body.title === "string") channel.title = req.body.title;
+    if (typeof req.body.category === "string") channel.category = req.body.category;
+    if (typeof req.body.viewers === "number") channel.viewers = req.body.viewers;
+    if (typeof req.body.dropsEnabled === "boolean") channel.dropsEnabled = req.body.dropsEnabled;
+    if (typeof req.body.live === "boolean") state.setLive(channel.login, req.body.live);
+    res.json(channel);
+  });
+
+  app.post("/mock/channels/:login/predictions", (req, res) => {
+    const { title = "Mock prediction", outcomes = ["Yes", "No"], windowSeconds = 120 } = req.body ?? {};
+    res.status(201).json(state.startPrediction(req.params.login, title, outcomes, windowSeconds));
+  });
+
+  app.post("/mock/predictions/:id/lock", (req, res) => {
+    const prediction = state.lockPrediction(req.params.id);
+    if (!prediction) return res.status(404).json({ message: "Prediction not found" });
+    res.json(prediction);
+  });
+
+  // Resolves with outcomeId, or the outcome titled `outcome`
+  app.post("/mock/predictions/:id/resolve", (req, res) => {
+    const { outcomeId, outcome } = req.body ?? {};
+    const winner = state.predictions.get(req.params.id)?.outcomes
+      .find((o) => o.id === outcomeId || (outcome !== undefined && o.title === outcome));
+    const prediction = winner && state.resolvePrediction(req.params.id, winner.id);
+    if (!prediction) return res.status(404).json({ message: "Open prediction or outcome not found" });
+    res.json(prediction);
+  });
+
+  app.post("/mock/predictions/:id/cancel", (req, res) => {
+    const prediction = state.cancelPrediction(req.params.id);
+    if (!prediction) return res.status(404).json({ message: "Open prediction not found" });
+    res.json(prediction);
+  });
+
+  // Replaces the channels the token's user follows
+  app.put("/mock/follows", (req, res) => {
+    const { token, logins } = req.body ?? {};
+    if (typeof token !== "string" || !Array.isArray(logins)) {
+      return res.status(400).json({ message: "token and logins are required" });
+    }
+    res.json(state.setFollows(token, logins));
+  });
+
+  // Replaces the drop campaigns; omitted fields get defaults
+  app.put("/mock/campaigns", (req, res) => {
+    if (!Array.isArray(req.body)) {
+      return res.status(400).json({ message: "Expected an array of campaigns" });
+    }
+    res.json(state.setCampaigns(req.body));
+  });
+
+  app.post("/mock/pubsub", (req, res) => {
+    const { topic, message } = req.body ?? {};
+    if (typeof topic !== "string" || !message) {
+      return res.status(400).json({ message: "topic and message are required" });
+    }
+    state.publish(topic, message);
+    res.status(204).end();
+  });
+
+  // Asks every PubSub connection to reconnect, as Twitch does before maintenance
+  app.post("/mock/pubsub/reconnect", (_req, res) => {
+    state.pubsub.emit("reconnect");
+    res.status(204).end();
+  });
+
+  // Channel pages, which carry the spade endpoint the player reports to
+  app.get("/:login", (req, res) => {
+    const spadeUrl = `${req.protocol}://${req.get("host")}/spade`;
+    res.type("html").send(
+      `<html><head><script>window.__twilightSettings = {"spade_url":"${spadeUrl}"};</script></head>` +
+      `<body>${state.channel(req.params.login).displayName}</body></html>`
+    );
+  });
+
+  return { app, state };
+}
+
+/**
+ * Serves PubSub at /pubsub on the given server: answers PING, LISTEN and
+ * UNLISTEN like Twitch (including ERR_BADAUTH for the "invalid" token on
+ * user topics) and forwards everything the state publishes.
+ */
+export function attachMockPubSub(server: Server, state: MockTwitchState): WebSocketServer {
+  const wss = new WebSocketServer({ server, path: "/pubsub" });
+
+  wss.on("connection", (socket) => {
+    state.pubsubConnections++;
+    const topics = new Set<string>();
+    const track = (topic: string, change: 1 | -1) => {
+      state.pubsubListeners.set(topic, (state.pubsubListeners.get(topic) ?? 0) + change);
+    };
+    const send = (message: object) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    const onMessage = (topic: string, message: object) => {
+      if (topics.has(topic)) {
+        send({ type: "MESSAGE", data: { topic, message: JSON.stringify(message) } });
+      }
+    };
+    const onReconnect = () => send({ type: "RECONNECT" });
+    state.pubsub.on("message", onMessage);
+    state.pubsub.on("reconnect", onReconnect);
+    socket.on("close", () => {
+      topics.forEach((topic) => track(topic, -1));
+      state.pubsub.off("message", onMessage);
+      state.pubsub.off("reconnect", onReconnect);
+    });
+
+    socket.on("message", (raw) => {
+      let request: any;
+      try {
+        request = JSON.parse(raw.toString());
+      } catch {
+        return send({ type: "RESPONSE", error: "ERR_BADMESSAGE", nonce: "" });
+      }
+
+      const requested: string[] = request.data?.topics ?? [];
+      const authToken: string | undefined = request.data?.auth_token;
+
+      switch (request.type) {
+        case "PING":
+          if (state.answerPubSubPings) send({ type: "PONG" });
+          return;
+
+        case "LISTEN": {
+          const needsAuth = requested.some((topic) => topic.startsWith("community-points-user-v1."));
+          let error = "";
+          if (needsAuth && (!authToken || authToken === "invalid")) error = "ERR_BADAUTH";
+          else if (topics.size + requested.length > MAX_PUBSUB_TOPICS) error = "ERR_BADTOPIC";
+          else requested.filter((topic) => !topics.has(topic)).forEach((topic) => {
+            topics.add(topic);
+            track(topic, 1);
+          });
+          return send({ type: "RESPONSE", error, nonce: request.nonce });
+        }
+
+        case "UNLISTEN":
+          requested.forEach((topic) => {
+            if (topics.delete(topic)) track(topic, -1);
+          });
+          return send({ type: "RESPONSE", error: "", nonce: request.nonce });
+      }
+    });
+  });
+
+  return wss;
+}
+
+export function startMockTwitchServer(port = DEFAULT_PORT, options: MockTwitchOptions = {}): Promise<{ server: Server, state: MockTwitchState }> {
+  const { app, state } = createMockTwitchApp(options);
+  return new Promise((resolve) => {
+    const server = app.listen(port, () => resolve({ server, state }));
+    attachMockPubSub(server, state);
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.TWITCH_MOCK_PORT) || DEFAULT_PORT;
+  startMockTwitchServer(port).then(() => {
+    console.log(`Mock Twitch API listening on http://localhost:${port} (set TWITCH_API_BASE to use it)`);
+  });
+}
@@ -0,0 +1,88 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import net from "net";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { sleep, waitFor } from "../test-helpers";
+import { startMockProxy, type MockProxyState } from "./mock-proxy";
+import { startMockTwitchServer, type MockTwitchState } from "./mock-server";
+import { proxiedFetch } from "./proxy";
+import { PubSubPool, pubsubTopics, type PubSubEvent } from "./pubsub";
+import { TwitchApiError, TwitchTransport, transportConfigFromEnv, type TwitchTransportConfig } from "./transport";
+
+const portOf = (server: net.Server) => (server.address() as AddressInfo).port;
+
+describe("account proxies", () => {
+  let twitch: Server;
+  let twitchState: MockTwitchState;
+  let proxy: net.Server;
+  let proxyState: MockProxyState;
+  let config: TwitchTransportConfig;
+
+  before(async () => {
+    ({ server: twitch, state: twitchState } = await startMockTwitchServer(0));
+    ({ server: proxy, state: proxyState } = await startMockProxy(0, { username: "user", password: "secret" }));
+    config = transportConfigFromEnv({ TWITCH_API_BASE: `http://localhost:${portOf(twitch)}` });
+  });
+
+  after(() => {
+    twitch.closeAllConnections();
+    twitch.close();
+    proxy.close();
+  });
+
+  for (const protocol of ["http", "socks5"]) {
+    describe(protocol === "http" ? "HTTP CONNECT" : "SOCKS5", () => {
+      // Agents are shared per proxy URL; a different host keeps tests from reusing each other's tunnels
+      const proxyUrl = (host = "localhost") => `${protocol}://user:secret@${host}:${portOf(proxy)}`;
+
+      test("carries transport requests", async () => {
+        const tunnels = proxyState.tunnels.length;
+        const transport = new TwitchTransport("token", 1, proxyUrl(), config);
+
+        const users = await transport.helix<{ data: { login: string }[] }>("/users", { login: "streamer" });
+
+        assert.equal(users.data[0].login, "streamer");
+        assert.deepEqual(proxyState.tunnels.slice(tunnels), [`localhost:${portOf(twitch)}`]);
+      });
+
+      test("carries PubSub connections", async () => {
+        const tunnels = proxyState.tunnels.length;
+        const pool = new PubSubPool({ url: config.pubsubUrl });
+        const events: PubSubEvent[] = [];
+        pool.onEvent((event) => events.push(event));
+        const channel = twitchState.channel("streamer");
+
+        try {
+          pool.listen(pubsubTopics.videoPlayback(channel.id), "", proxyUrl("127.0.0.1"));
+          // Published until the LISTEN has gone through
+          await waitFor(async () => {
+            twitchState.publish(pubsubTopics.videoPlayback(channel.id), { type: "stream-up" });
+            await sleep(20);
+            return events.length > 0;
+          });
+        } finally {
+          pool.close();
+        }
+
+        assert.deepEqual(events[0], { type: "stream-up", channelId: channel.id });
+        assert.deepEqual(proxyState.tunnels.slice(tunnels), [`localhost:${portOf(twitch)}`]);
+      });
+
+      test("times out when the response stalls", async () => {
+        // Accepts the request through the tunnel and never answers it
+        const stalled = net.createServer(() => {});
+        await new Promise<void>((resolve) => stalled.listen(0, resolve));
+
+        try {
+          await assert.rejects(
+            proxiedFetch(proxyUrl(), `http://localhost:${portOf(stalled)}/`, {}, 200),
+            (error) => error instanceof TwitchApiError && /timed out/.test(error.message),
+          );
+        } finally {
+          stalled.close();
+        }
+      });
+    });
+  }
+});
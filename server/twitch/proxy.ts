@@ -0,0 +1,280 @@
+import http from "http";
+import https from "https";
+import net from "net";
+import tls from "tls";
+import type { Duplex } from "stream";
+import { TwitchApiError } from "./transport";
+
+// Per-account HTTP CONNECT and SOCKS5 proxies. Requests (proxiedFetch) and
+// PubSub sockets (proxyAgent) run TLS to Twitch inside the tunnel, so the
+// proxy never sees the account's token. mock-proxy.ts is a local stand-in.
+
+const DEFAULT_PORTS: Record<string, number> = { "http:": 80, "socks5:": 1080, "socks5h:": 1080 };
+const HANDSHAKE_TIMEOUT_MS = 10_000;
+// A request through the tunnel, from sending it to the end of the response
+const REQUEST_TIMEOUT_MS = 30_000;
+
+const SOCKS_ERRORS: Record<number, string> = {
+  1: "general failure",
+  2: "connection not allowed",
+  3: "network unreachable",
+  4: "host unreachable",
+  5: "connection refused",
+  6: "TTL expired",
+  7: "command not supported",
+  8: "address type not supported",
+};
+
+interface ProxyConfig {
+  protocol: "http" | "socks5";
+  host: string;
+  port: number;
+  username: string;
+  password: string;
+}
+
+function parseProxyUrl(proxyUrl: string): ProxyConfig {
+  const url = new URL(proxyUrl);
+  if (!(url.protocol in DEFAULT_PORTS)) {
+    throw new Error(`Unsupported proxy protocol ${url.protocol}`);
+  }
+  return {
+    protocol: url.protocol === "http:" ? "http" : "socks5",
+    host: url.hostname.replace(/^\[|\]$/g, ""),
+    port: Number(url.port) || DEFAULT_PORTS[url.protocol],
+    username: decodeURIComponent(url.username),
+    password: decodeURIComponent(url.password),
+  };
+}
+
+// The proxy URL with "****" for its password, for showing to users
+export function maskProxyUrl(proxyUrl: string): string {
+  try {
+    const url = new URL(proxyUrl);
+    if (url.password) url.password = "****";
+    return url.toString().replace(/\/$/, "");
+  } catch {
+    return proxyUrl;
+  }
+}
+
+// Reads one handshake message (`complete` returns its length, or -1 for
+// more) and pauses the socket so the tunnel's user gets the rest
+function receive(socket: net.Socket, complete: (data: Buffer) => number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let data = Buffer.alloc(0);
+    const cleanup = () => {
+      socket.pause();
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    };
+    const onData = (chunk: Buffer) => {
+      data = Buffer.concat([data, chunk]);
+      const length = complete(data);
+      if (length < 0) return;
+      cleanup();
+      resolve(data.subarray(0, length));
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error("Proxy closed the connection"));
+    };
+
+    socket.on("data", onData);
+    socket.on("error", onError);
+    socket.on("close", onClose);
+    socket.resume();
+  });
+}
+
+async function httpConnect(socket: net.Socket, proxy: ProxyConfig, host: string, port: number): Promise<void> {
+  const target = `${host.includes(":") ? `[${host}]` : host}:${port}`;
+  const headers = [`CONNECT ${target} HTTP/1.1`, `Host: ${target}`];
+  if (proxy.username) {
+    const credentials = Buffer.from(`${proxy.username}:${proxy.password}`).toString("base64");
+    headers.push(`Proxy-Authorization: Basic ${credentials}`);
+  }
+  socket.write(`${headers.join("\r\n")}\r\n\r\n`);
+
+  const response = await receive(socket, (data) => {
+    const end = data.indexOf("\r\n\r\n");
+    return end < 0 ? -1 : end + 4;
+  });
+  const statusLine = response.toString("latin1").split("\r\n")[0];
+  if (!/^HTTP\/1\.[01] 2\d\d/.test(statusLine)) {
+    throw new Error(`Proxy refused the tunnel: ${statusLine}`);
+  }
+}
+
+async function socks5Connect(socket: net.Socket, proxy: ProxyConfig, host: string, port: number): Promise<void> {
+  // Offer username/password authentication only when there are credentials
+  socket.write(Buffer.from(proxy.username ? [5, 2, 0, 2] : [5, 1, 0]));
+  const method = (await receive(socket, (data) => data.length >= 2 ? 2 : -1))[1];
+
+  if (method === 2) {
+    const username = Buffer.from(proxy.username);
+    const password = Buffer.from(proxy.password);
+    socket.write(Buffer.concat([
+      Buffer.from([1, username.length]), username,
+      Buffer.from([password.length]), password,
+    ]));
+    const status = (await receive(socket, (data) => data.length >= 2 ? 2 : -1))[1];
+    if (status !== 0) {
+      throw new Error("Proxy rejected the username or password");
+    }
+  } else if (method !== 0) {
+    throw new Error("Proxy requires an authentication method that isn't supported");
+  }
+
+  // CONNECT by host name, so DNS is resolved by the proxy
+  const name = Buffer.from(host);
+  socket.write(Buffer.concat([
+    Buffer.from([5, 1, 0, 3, name.length]), name,
+    Buffer.from([port >> 8, port & 0xff]),
+  ]));
+  const reply = await receive(socket, (data) => {
+    if (data.length < 5) return -1;
+    const address = data[3] === 1 ? 4 : data[3] === 4 ? 16 : 1 + data[4];
+    const length = 4 + address + 2;
+    return data.length >= length ? length : -1;
+  });
+  if (reply[1] !== 0) {
+    throw new Error(`Proxy could not connect to ${host}:${port}: ${SOCKS_ERRORS[reply[1]] ?? `error ${reply[1]}`}`);
+  }
+}
+
+// Opens a TCP connection to host:port through the proxy; the socket is paused
+export async function openTunnel(proxyUrl: string, host: string, port: number): Promise<net.Socket> {
+  const proxy = parseProxyUrl(proxyUrl);
+  const socket = net.connect(proxy.port, proxy.host);
+  socket.setTimeout(HANDSHAKE_TIMEOUT_MS, () => {
+    socket.destroy(new Error(`Proxy ${proxy.host}:${proxy.port} timed out`));
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      socket.once("connect", resolve);
+      socket.once("error", reject);
+    });
+    if (proxy.protocol === "http") {
+      await httpConnect(socket, proxy, host, port);
+    } else {
+      await socks5Connect(socket, proxy, host, port);
+    }
+  } catch (error) {
+    socket.destroy();
+    throw error;
+  }
+
+  socket.setTimeout(0);
+  return socket;
+}
+
+type CreateConnectionCallback = (error: Error | null, socket?: Duplex) => void;
+
+class ProxyHttpAgent extends http.Agent {
+  constructor(private proxyUrl: string) {
+    super({ keepAlive: true });
+  }
+
+  createConnection(options: http.ClientRequestArgs, callback: CreateConnectionCallback): undefined {
+    openTunnel(this.proxyUrl, options.hostname ?? options.host ?? "localhost", Number(options.port) || 80)
+      .then((socket) => {
+        callback(null, socket);
+        socket.resume();
+      }, callback);
+    return undefined;
+  }
+}
+
+class ProxyHttpsAgent extends https.Agent {
+  constructor(private proxyUrl: string) {
+    super({ keepAlive: true });
+  }
+
+  createConnection(options: https.RequestOptions, callback: CreateConnectionCallback): undefined {
+    const host = options.hostname ?? options.host ?? "localhost";
+    openTunnel(this.proxyUrl, host, Number(options.port) || 443)
+      .then((socket) => {
+        const secure = tls.connect({ socket, servername: options.servername || host, ALPNProtocols: ["http/1.1"] });
+        secure.once("secureConnect", () => callback(null, secure));
+        secure.once("error", callback);
+        socket.resume();
+      }, callback);
+    return undefined;
+  }
+}
+
+// One pair of keep-alive agents per proxy URL
+const agents = new Map<string, { http: ProxyHttpAgent, https: ProxyHttpsAgent }>();
+
+// Shared agent that sends http(s) and ws(s) connections through the proxy
+export function proxyAgent(proxyUrl: string, secure: boolean): http.Agent {
+  let pair = agents.get(proxyUrl);
+  if (!pair) {
+    pair = { http: new ProxyHttpAgent(proxyUrl), https: new ProxyHttpsAgent(proxyUrl) };
+    agents.set(proxyUrl, pair);
+  }
+  return secure ? pair.https : pair.http;
+}
+
+// fetch() through a proxy, for the method, string headers and string body the transport uses
+export function proxiedFetch(proxyUrl: string, url: string, init: RequestInit = {}, timeoutMs = REQUEST_TIMEOUT_MS): Promise<Response> {
+  const target = new URL(url);
+  const secure = target.protocol === "https:";
+
+  return new Promise((resolve, reject) => {
+    const fail = (error: Error) => {
+      clearTimeout(timer);
+      reject(error);
+    };
+
+    const request = (secure ? https : http).request(target, {
+      method: init.method ?? "GET",
+      headers: init.headers as Record<string, string> | undefined,
+      agent: proxyAgent(proxyUrl, secure),
+    }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(chunk));
+      res.on("error", fail);
+      res.on("end", () => {
+        clearTimeout(timer);
+        const headers = new Headers();
+        for (const [name, value] of Object.entries(res.headers)) {
+          (Array.isArray(value) ? value : [value ?? ""]).forEach((v) => headers.append(name, v));
+        }
+        const status = res.statusCode ?? 502;
+        const empty = [101, 204, 205, 304].includes(status);
+        resolve(new Response(empty ? null : Buffer.concat(chunks), {
+          status,
+          statusText: res.statusMessage,
+          headers,
+        }));
+      });
+    });
+
+    // The tunnel has no timeout of its own once open, so a stalled proxy would hang the caller
+    const timer = setTimeout(() => {
+      const error = new TwitchApiError(`Request to ${target.host} through the proxy timed out`);
+      request.destroy(error);
+      fail(error);
+    }, timeoutMs);
+
+    request.on("error", fail);
+    if (init.body) request.write(init.body as string);
+    request.end();
+  });
+}
+
+// Checks that the proxy accepts connections and can reach the URL's host
+export async function checkProxy(proxyUrl: string, url: string): Promise<void> {
+  const target = new URL(url);
+  const port = Number(target.port) || (target.protocol === "https:" || target.protocol === "wss:" ? 443 : 80);
+  const socket = await openTunnel(proxyUrl, target.hostname, port);
+  socket.destroy();
+}
@@ -0,0 +1,98 @@
+import { after, afterEach, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { sleep, waitFor } from "../test-helpers";
+import { startMockTwitchServer, type MockTwitchState } from "./mock-server";
+import { PubSubPool, pubsubTopics, type PubSubEvent, type PubSubOptions } from "./pubsub";
+import { transportConfigFromEnv } from "./transport";
+
+describe("PubSubPool", () => {
+  let server: Server;
+  let state: MockTwitchState;
+  let pool: PubSubPool;
+  let events: PubSubEvent[];
+
+  before(async () => {
+    ({ server, state } = await startMockTwitchServer(0));
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  function createPool(options: PubSubOptions = {}): PubSubPool {
+    const { port } = server.address() as AddressInfo;
+    const { pubsubUrl } = transportConfigFromEnv({ TWITCH_API_BASE: `http://localhost:${port}` });
+    pool = new PubSubPool({ url: pubsubUrl, reconnectBaseMs: 10, ...options });
+    pool.onEvent((event) => events.push(event));
+    return pool;
+  }
+
+  // Publishes stream-up on the channel until it arrives, i.e. once its topic is listened to
+  async function expectStreamUp(channelId: string): Promise<void> {
+    const received = () => events.some((event) => event.type === "stream-up" && event.channelId === channelId);
+    await waitFor(async () => {
+      state.publish(pubsubTopics.videoPlayback(channelId), { type: "stream-up" });
+      await sleep(20);
+      return received();
+    });
+  }
+
+  beforeEach(() => {
+    events = [];
+    state.answerPubSubPings = true;
+  });
+
+  afterEach(() => {
+    pool.close();
+  });
+
+  test("splits topics across connections at maxTopicsPerConnection", async () => {
+    createPool({ maxTopicsPerConnection: 2 });
+    const channels = ["1", "2", "3"];
+
+    channels.forEach((id) => pool.listen(pubsubTopics.videoPlayback(id)));
+
+    assert.equal(pool.connectionCount, 2);
+    for (const id of channels) await expectStreamUp(id);
+  });
+
+  test("reconnects and listens again when a PONG doesn't come back", async () => {
+    createPool({ pingIntervalMs: 100, pongTimeoutMs: 50 });
+    pool.listen(pubsubTopics.videoPlayback("1"));
+    await expectStreamUp("1");
+    const connections = state.pubsubConnections;
+
+    state.answerPubSubPings = false;
+    await waitFor(() => state.pubsubConnections > connections);
+    state.answerPubSubPings = true;
+
+    events = [];
+    await expectStreamUp("1");
+  });
+
+  test("reconnects and listens again when Twitch sends RECONNECT", async () => {
+    createPool();
+    pool.listen(pubsubTopics.videoPlayback("1"));
+    await expectStreamUp("1");
+    const connections = state.pubsubConnections;
+
+    state.pubsub.emit("reconnect");
+    await waitFor(() => state.pubsubConnections > connections);
+
+    events = [];
+    await expectStreamUp("1");
+  });
+
+  test("reports a LISTEN refused with ERR_BADAUTH", async () => {
+    createPool();
+    const topic = pubsubTopics.communityPointsUser("1");
+
+    pool.listen(topic, "invalid");
+
+    await waitFor(() => events.length > 0);
+    assert.deepEqual(events, [{ type: "auth-error", topic }]);
+  });
+});
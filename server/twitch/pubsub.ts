@@ -0,0 +1,406 @@
+/**
+ * Twitch PubSub client. Topics from any number of accounts and channels are
+ * spread over a pool of WebSocket connections, each holding at most
+ * MAX_TOPICS_PER_CONNECTION topics as Twitch requires.
+ *
+ * Each connection PINGs every few minutes and reconnects when no PONG comes
+ * back, when Twitch sends RECONNECT, or when the socket drops, backing off
+ * exponentially between failed attempts. Topics are re-LISTENed after every
+ * reconnect. Incoming messages are parsed into typed PubSubEvents.
+ *
+ * Connections are opened per proxy: topics of an account with a proxy only
+ * share connections with other topics through the same proxy. A public
+ * topic several accounts listen to stays on the connection of whichever
+ * listened first.
+ */
+import crypto from "crypto";
+import WebSocket from "ws";
+import { proxyAgent } from "./proxy";
+import { transportConfigFromEnv } from "./transport";
+
+export const MAX_TOPICS_PER_CONNECTION = 50;
+const PING_INTERVAL_MS = 4 * 60 * 1000;
+const PONG_TIMEOUT_MS = 10 * 1000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 2 * 60 * 1000;
+
+// Topic names for the events the farm listens to
+export const pubsubTopics = {
+  communityPointsUser: (userId: string) => `community-points-user-v1.${userId}`,
+  videoPlayback: (channelId: string) => `video-playback-by-id.${channelId}`,
+  predictionsChannel: (channelId: string) => `predictions-channel-v1.${channelId}`,
+  raid: (channelId: string) => `raid.${channelId}`,
+};
+
+export interface PubSubPrediction {
+  id: string;
+  title: string;
+  status: string; // ACTIVE, LOCKED, RESOLVE_PENDING, RESOLVED, CANCELED
+  createdAt: string;
+  predictionWindowSeconds: number;
+  outcomes: { id: string, title: string, totalPoints: number, totalUsers: number }[];
+  winningOutcomeId: string | null;
+}
+
+export type PubSubEvent =
+  | { type: "points-earned", userId: string, channelId: string, gained: number, balance: number, reason: string }
+  | { type: "claim-available", userId: string, channelId: string, claimId: string }
+  | { type: "stream-up", channelId: string }
+  | { type: "stream-down", channelId: string }
+  | { type: "prediction", channelId: string, prediction: PubSubPrediction }
+  | { type: "raid", channelId: string, raidId: string, targetLogin: string }
+  // LISTEN was refused because the token for the topic is invalid
+  | { type: "auth-error", topic: string };
+
+export type PubSubListener = (event: PubSubEvent) => void;
+
+export interface PubSubOptions {
+  url?: string;
+  maxTopicsPerConnection?: number;
+  pingIntervalMs?: number;
+  pongTimeoutMs?: number;
+  reconnectBaseMs?: number;
+  reconnectMaxMs?: number;
+}
+
+export function pubsubUrlFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return transportConfigFromEnv(env).pubsubUrl;
+}
+
+/**
+ * Translates a PubSub MESSAGE into a typed event. Returns null for message
+ * types the farm doesn't use and for payloads that aren't shaped as expected.
+ */
+export function parsePubSubMessage(topic: string, raw: string): PubSubEvent | null {
+  const [name, id] = topic.split(".");
+  try {
+    return decodeMessage(name, id, JSON.parse(raw));
+  } catch {
+    // Not JSON, or a field the event needs is missing
+    return null;
+  }
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+function decodeMessage(name: string, id: string, message: any): PubSubEvent | null {
+  switch (name) {
+    case "community-points-user-v1":
+      if (message.type === "points-earned") {
+        if (!isString(message.data.channel_id)) return null;
+        return {
+          type: "points-earned",
+          userId: id,
+          channelId: message.data.channel_id,
+          gained: message.data.point_gain?.total_points ?? 0,
+          balance: message.data.balance?.balance ?? 0,
+          reason: message.data.point_gain?.reason_code ?? "",
+        };
+      }
+      if (message.type === "claim-available") {
+        const { claim } = message.data;
+        if (!isString(claim.id) || !isString(claim.channel_id)) return null;
+        return {
+          type: "claim-available",
+          userId: id,
+          channelId: claim.channel_id,
+          claimId: claim.id,
+        };
+      }
+      return null;
+
+    case "video-playback-by-id":
+      if (message.type === "stream-up") return { type: "stream-up", channelId: id };
+      if (message.type === "stream-down") return { type: "stream-down", channelId: id };
+      return null;
+
+    case "predictions-channel-v1": {
+      if (message.type !== "event-created" && message.type !== "event-updated") return null;
+      const event = message.data.event;
+      if (!isString(event.id) || !isString(event.status) || !Array.isArray(event.outcomes)) return null;
+      return {
+        type: "prediction",
+        channelId: id,
+        prediction: {
+          id: event.id,
+          title: event.title,
+          status: event.status,
+          createdAt: event.created_at,
+          predictionWindowSeconds: event.prediction_window_seconds,
+          outcomes: event.outcomes.map((outcome: any) => ({
+            id: outcome.id,
+            title: outcome.title,
+            totalPoints: outcome.total_points,
+            totalUsers: outcome.total_users,
+          })),
+          winningOutcomeId: event.winning_outcome_id ?? null,
+        },
+      };
+    }
+
+    case "raid":
+      if (message.type === "raid_update_v2") {
+        if (!isString(message.raid.id) || !isString(message.raid.target_login)) return null;
+        return {
+          type: "raid",
+          channelId: id,
+          raidId: message.raid.id,
+          targetLogin: message.raid.target_login,
+        };
+      }
+      return null;
+
+    default:
+      return null;
+  }
+}
+
+class PubSubConnection {
+  // Topic -> auth token (empty for public topics)
+  readonly topics = new Map<string, string>();
+  private socket?: WebSocket;
+  private pingTimer?: NodeJS.Timeout;
+  private pongTimer?: NodeJS.Timeout;
+  private reconnectTimer?: NodeJS.Timeout;
+  // LISTEN nonce -> topics, to attribute a failed RESPONSE
+  private pending = new Map<string, string[]>();
+  private attempts = 0;
+  private closed = false;
+
+  constructor(
+    private options: Required<PubSubOptions>,
+    private onEvent: (event: PubSubEvent) => void,
+    readonly proxy: string | null = null
+  ) {}
+
+  get size(): number {
+    return this.topics.size;
+  }
+
+  listen(topic: string, authToken: string): void {
+    this.topics.set(topic, authToken);
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.send("LISTEN", [topic], authToken);
+    } else {
+      this.connect();
+    }
+  }
+
+  unlisten(topic: string): void {
+    const authToken = this.topics.get(topic);
+    if (authToken === undefined) return;
+
+    this.topics.delete(topic);
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.send("UNLISTEN", [topic], authToken);
+    }
+    if (this.topics.size === 0) {
+      this.close();
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    this.teardown();
+  }
+
+  private connect(): void {
+    if (this.closed || this.socket || this.reconnectTimer) return;
+
+    const socket = new WebSocket(this.options.url, this.proxy
+      ? { agent: proxyAgent(this.proxy, this.options.url.startsWith("wss:")) }
+      : {});
+    this.socket = socket;
+
+    socket.on("open", () => {
+      this.attempts = 0;
+      this.listenAll();
+      this.ping();
+      this.pingTimer = setInterval(() => this.ping(), this.options.pingIntervalMs);
+    });
+
+    socket.on("message", (data) => this.handleMessage(data.toString()));
+
+    socket.on("close", () => {
+      if (this.socket === socket) this.reconnect();
+    });
+
+    socket.on("error", (error) => {
+      console.error("PubSub connection error:", error.message);
+    });
+  }
+
+  // Drops the socket and schedules a new one with exponential backoff
+  private reconnect(): void {
+    this.teardown();
+    if (this.closed || this.topics.size === 0) return;
+
+    const delay = Math.min(
+      this.options.reconnectBaseMs * 2 ** this.attempts,
+      this.options.reconnectMaxMs
+    );
+    this.attempts++;
+    // Jitter keeps many connections from reconnecting in lockstep
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect();
+    }, delay + Math.random() * delay * 0.25);
+  }
+
+  private teardown(): void {
+    clearInterval(this.pingTimer);
+    clearTimeout(this.pongTimer);
+    this.pending.clear();
+    if (this.closed) clearTimeout(this.reconnectTimer);
+
+    const socket = this.socket;
+    this.socket = undefined;
+    if (socket) {
+      socket.removeAllListeners("close");
+      socket.on("error", () => {});
+      socket.terminate();
+    }
+  }
+
+  private ping(): void {
+    this.socket?.send(JSON.stringify({ type: "PING" }));
+    clearTimeout(this.pongTimer);
+    this.pongTimer = setTimeout(() => this.reconnect(), this.options.pongTimeoutMs);
+  }
+
+  // One LISTEN per auth token, since a LISTEN carries a single token
+  private listenAll(): void {
+    const byToken = new Map<string, string[]>();
+    for (const [topic, authToken] of Array.from(this.topics)) {
+      byToken.set(authToken, [...(byToken.get(authToken) ?? []), topic]);
+    }
+    for (const [authToken, topics] of Array.from(byToken)) {
+      this.send("LISTEN", topics, authToken);
+    }
+  }
+
+  private send(type: "LISTEN" | "UNLISTEN", topics: string[], authToken: string): void {
+    const nonce = crypto.randomBytes(8).toString("hex");
+    if (type === "LISTEN") this.pending.set(nonce, topics);
+    this.socket?.send(JSON.stringify({
+      type,
+      nonce,
+      data: authToken ? { topics, auth_token: authToken } : { topics },
+    }));
+  }
+
+  private handleMessage(raw: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    if (typeof message !== "object" || message === null) return;
+
+    switch (message.type) {
+      case "PONG":
+        clearTimeout(this.pongTimer);
+        break;
+
+      case "RECONNECT":
+        this.attempts = 0;
+        this.reconnect();
+        break;
+
+      case "RESPONSE": {
+        const topics = this.pending.get(message.nonce) ?? [];
+        this.pending.delete(message.nonce);
+        if (message.error === "ERR_BADAUTH") {
+          topics.forEach((topic) => this.onEvent({ type: "auth-error", topic }));
+        } else if (message.error) {
+          console.error(`PubSub LISTEN ${topics.join(", ")} failed: ${message.error}`);
+        }
+        break;
+      }
+
+      case "MESSAGE": {
+        const { topic, message: payload } = message.data ?? {};
+        if (!isString(topic) || !isString(payload)) break;
+        const event = parsePubSubMessage(topic, payload);
+        if (event) this.onEvent(event);
+        break;
+      }
+    }
+  }
+}
+
+export class PubSubPool {
+  private connections: PubSubConnection[] = [];
+  // Topic -> number of subscribers, so shared topics are listened to once
+  private refs = new Map<string, number>();
+  private listeners = new Set<PubSubListener>();
+  private options: Required<PubSubOptions>;
+
+  constructor(options: PubSubOptions = {}) {
+    this.options = {
+      url: options.url ?? pubsubUrlFromEnv(),
+      maxTopicsPerConnection: options.maxTopicsPerConnection ?? MAX_TOPICS_PER_CONNECTION,
+      pingIntervalMs: options.pingIntervalMs ?? PING_INTERVAL_MS,
+      pongTimeoutMs: options.pongTimeoutMs ?? PONG_TIMEOUT_MS,
+      reconnectBaseMs: options.reconnectBaseMs ?? RECONNECT_BASE_MS,
+      reconnectMaxMs: options.reconnectMaxMs ?? RECONNECT_MAX_MS,
+    };
+  }
+
+  onEvent(listener: PubSubListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  listen(topic: string, authToken = "", proxy: string | null = null): void {
+    const refs = this.refs.get(topic) ?? 0;
+    this.refs.set(topic, refs + 1);
+    if (refs > 0) return;
+
+    let connection = this.connections.find((c) =>
+      c.proxy === proxy && c.size < this.options.maxTopicsPerConnection
+    );
+    if (!connection) {
+      connection = new PubSubConnection(this.options, (event) => this.emit(event), proxy);
+      this.connections.push(connection);
+    }
+    connection.listen(topic, authToken);
+  }
+
+  unlisten(topic: string): void {
+    const refs = this.refs.get(topic);
+    if (!refs) return;
+    if (refs > 1) {
+      this.refs.set(topic, refs - 1);
+      return;
+    }
+
+    this.refs.delete(topic);
+    const connection = this.connections.find((c) => c.topics.has(topic));
+    connection?.unlisten(topic);
+    if (connection && connection.size === 0) {
+      this.connections = this.connections.filter((c) => c !== connection);
+    }
+  }
+
+  get connectionCount(): number {
+    return this.connections.length;
+  }
+
+  close(): void {
+    this.connections.forEach((connection) => connection.close());
+    this.connections = [];
+    this.refs.clear();
+  }
+
+  private emit(event: PubSubEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("PubSub listener failed:", error);
+      }
+    });
+  }
+}
@@ -0,0 +1,195 @@
+// Token buckets every outbound Twitch HTTP request waits on: the global
+// one, its account's and its endpoint class's. Blocked requests queue by
+// priority; TWITCH_RATE_LIMIT_SCALE multiplies every rate.
+
+export const endpointClasses = ["gql", "helix", "web", "spade"] as const;
+export type EndpointClass = typeof endpointClasses[number];
+
+// Highest first
+export const requestPriorities = ["claim", "watch", "lookup"] as const;
+export type RequestPriority = typeof requestPriorities[number];
+
+export interface BucketLimit {
+  perSecond: number;
+  burst: number;
+}
+
+export interface RateLimiterOptions {
+  global?: BucketLimit;
+  account?: BucketLimit;
+  endpoints?: Partial<Record<EndpointClass, BucketLimit>>;
+}
+
+export interface LimitedRequest {
+  accountId: number;
+  endpoint: EndpointClass;
+  priority: RequestPriority;
+}
+
+export interface BucketMetrics extends BucketLimit {
+  available: number;
+}
+
+export interface RateLimiterMetrics {
+  queued: number;
+  queuedByPriority: Record<RequestPriority, number>;
+  // Since startup
+  requests: number;
+  delayed: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  global: BucketMetrics;
+  endpoints: Record<EndpointClass, BucketMetrics>;
+  accounts: (BucketMetrics & { accountId: number, queued: number })[];
+}
+
+const DEFAULT_GLOBAL: BucketLimit = { perSecond: 20, burst: 40 };
+const DEFAULT_ACCOUNT: BucketLimit = { perSecond: 4, burst: 12 };
+const DEFAULT_ENDPOINTS: Record<EndpointClass, BucketLimit> = {
+  gql: { perSecond: 10, burst: 20 },
+  helix: { perSecond: 12, burst: 30 },
+  web: { perSecond: 1, burst: 5 },
+  spade: { perSecond: 5, burst: 10 },
+};
+
+class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(readonly limit: BucketLimit) {
+    this.tokens = limit.burst;
+  }
+
+  available(now = Date.now()): number {
+    this.tokens = Math.min(this.limit.burst, this.tokens + ((now - this.refilledAt) / 1000) * this.limit.perSecond);
+    this.refilledAt = now;
+    return this.tokens;
+  }
+
+  take(): void {
+    this.tokens -= 1;
+  }
+
+  // Milliseconds until a token is available
+  wait(now = Date.now()): number {
+    const missing = 1 - this.available(now);
+    return missing <= 0 ? 0 : Math.ceil((missing / this.limit.perSecond) * 1000);
+  }
+
+  metrics(): BucketMetrics {
+    return { ...this.limit, available: Math.floor(this.available()) };
+  }
+}
+
+interface PendingRequest extends LimitedRequest {
+  queuedAt: number;
+  release: () => void;
+}
+
+function scaled(limit: BucketLimit, scale: number): BucketLimit {
+  return { perSecond: limit.perSecond * scale, burst: Math.max(1, Math.round(limit.burst * scale)) };
+}
+
+export class RateLimiter {
+  private global: TokenBucket;
+  private endpoints: Record<EndpointClass, TokenBucket>;
+  private accounts = new Map<number, TokenBucket>();
+  private accountLimit: BucketLimit;
+  private queue: PendingRequest[] = [];
+  private timer?: NodeJS.Timeout;
+  private requests = 0;
+  private delayed = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(options: RateLimiterOptions = {}) {
+    const scale = Number(process.env.TWITCH_RATE_LIMIT_SCALE) || 1;
+    this.global = new TokenBucket(options.global ?? scaled(DEFAULT_GLOBAL, scale));
+    this.accountLimit = options.account ?? scaled(DEFAULT_ACCOUNT, scale);
+    this.endpoints = Object.fromEntries(endpointClasses.map((endpoint) => [
+      endpoint,
+      new TokenBucket(options.endpoints?.[endpoint] ?? scaled(DEFAULT_ENDPOINTS[endpoint], scale)),
+    ])) as Record<EndpointClass, TokenBucket>;
+  }
+
+  // Sends the request once all of its buckets have a token
+  async schedule<T>(request: LimitedRequest, send: () => Promise<T>): Promise<T> {
+    await new Promise<void>((release) => {
+      this.queue.push({ ...request, queuedAt: Date.now(), release });
+      this.drain();
+    });
+    return send();
+  }
+
+  metrics(): RateLimiterMetrics {
+    const queuedByPriority = Object.fromEntries(requestPriorities.map((priority) =>
+      [priority, this.queue.filter((pending) => pending.priority === priority).length]
+    )) as Record<RequestPriority, number>;
+
+    return {
+      queued: this.queue.length,
+      queuedByPriority,
+      requests: this.requests,
+      delayed: this.delayed,
+      averageWaitMs: this.requests ? Math.round(this.totalWaitMs / this.requests) : 0,
+      maxWaitMs: this.maxWaitMs,
+      global: this.global.metrics(),
+      endpoints: Object.fromEntries(endpointClasses.map((endpoint) =>
+        [endpoint, this.endpoints[endpoint].metrics()]
+      )) as Record<EndpointClass, BucketMetrics>,
+      accounts: Array.from(this.accounts.entries())
+        .map(([accountId, bucket]) => ({
+          accountId,
+          ...bucket.metrics(),
+          queued: this.queue.filter((pending) => pending.accountId === accountId).length,
+        }))
+        .sort((a, b) => a.accountId - b.accountId),
+    };
+  }
+
+  private accountBucket(accountId: number): TokenBucket {
+    let bucket = this.accounts.get(accountId);
+    if (!bucket) {
+      bucket = new TokenBucket(this.accountLimit);
+      this.accounts.set(accountId, bucket);
+    }
+    return bucket;
+  }
+
+  // Releases every queued request its buckets allow, highest priority first
+  private drain(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const now = Date.now();
+    const ordered = requestPriorities.flatMap((priority) =>
+      this.queue.filter((pending) => pending.priority === priority)
+    );
+
+    let nextWait = Infinity;
+    for (const pending of ordered) {
+      const buckets = [this.global, this.endpoints[pending.endpoint], this.accountBucket(pending.accountId)];
+      const wait = Math.max(...buckets.map((bucket) => bucket.wait(now)));
+      if (wait > 0) {
+        nextWait = Math.min(nextWait, wait);
+        continue;
+      }
+
+      buckets.forEach((bucket) => bucket.take());
+      this.queue.splice(this.queue.indexOf(pending), 1);
+
+      const waited = now - pending.queuedAt;
+      this.requests++;
+      this.totalWaitMs += waited;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waited);
+      if (waited > 0) this.delayed++;
+      pending.release();
+    }
+
+    if (this.queue.length > 0) {
+      this.timer = setTimeout(() => this.drain(), Math.max(nextWait === Infinity ? 0 : nextWait, 10));
+    }
+  }
+}
+
+export const twitchRateLimiter = new RateLimiter();
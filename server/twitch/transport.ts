@@ -0,0 +1,168 @@
+import { proxiedFetch } from "./proxy";
+import { twitchRateLimiter, type EndpointClass, type RateLimiter, type RequestPriority } from "./rate-limiter";
+
+/**
+ * HTTP layer under the TwitchClient. Every request to Twitch goes through
+ * here, so pointing TWITCH_API_BASE at the bundled mock server
+ * (npm run twitch:mock) takes the whole app offline.
+ *
+ *   TWITCH_API_BASE   serves <base>/gql, <base>/helix, the channel pages and
+ *                     the <base>/pubsub WebSocket (mock server)
+ *   TWITCH_GQL_URL    defaults to https://gql.twitch.tv/gql
+ *   TWITCH_HELIX_URL  defaults to https://api.twitch.tv/helix
+ *   TWITCH_WEB_URL    defaults to https://www.twitch.tv
+ *   TWITCH_PUBSUB_URL defaults to wss://pubsub-edge.twitch.tv/v1
+ *   TWITCH_CLIENT_ID  defaults to the Twitch web client, which browser
+ *                     auth-token cookies are issued for
+ *
+ * Requests wait their turn on the shared RateLimiter (./rate-limiter.ts)
+ * and go through the account's proxy when it has one (./proxy.ts).
+ */
+
+const DEFAULT_GQL_URL = "https://gql.twitch.tv/gql";
+const DEFAULT_HELIX_URL = "https://api.twitch.tv/helix";
+const DEFAULT_WEB_URL = "https://www.twitch.tv";
+const DEFAULT_PUBSUB_URL = "wss://pubsub-edge.twitch.tv/v1";
+const DEFAULT_CLIENT_ID = "kimne78kx3ncx6brgo4mv6wki5h1ko";
+
+export interface TwitchTransportConfig {
+  gqlUrl: string;
+  helixUrl: string;
+  webUrl: string;
+  pubsubUrl: string;
+  clientId: string;
+}
+
+export function transportConfigFromEnv(env: NodeJS.ProcessEnv = process.env): TwitchTransportConfig {
+  const base = env.TWITCH_API_BASE?.replace(/\/+$/, "");
+  return {
+    gqlUrl: env.TWITCH_GQL_URL || (base ? `${base}/gql` : DEFAULT_GQL_URL),
+    helixUrl: env.TWITCH_HELIX_URL || (base ? `${base}/helix` : DEFAULT_HELIX_URL),
+    webUrl: env.TWITCH_WEB_URL || base || DEFAULT_WEB_URL,
+    pubsubUrl: env.TWITCH_PUBSUB_URL || (base ? `${base.replace(/^http/, "ws")}/pubsub` : DEFAULT_PUBSUB_URL),
+    clientId: env.TWITCH_CLIENT_ID || DEFAULT_CLIENT_ID,
+  };
+}
+
+// The account's credentials were rejected; retrying won't help until they change
+export class TwitchAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TwitchAuthError";
+  }
+}
+
+// Any other failed Twitch call: HTTP errors and GQL "errors" responses
+export class TwitchApiError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = "TwitchApiError";
+  }
+}
+
+// A persisted GQL query, identified by name and the hash Twitch registered
+export interface GqlOperation {
+  operationName: string;
+  sha256Hash: string;
+}
+
+export class TwitchTransport {
+  constructor(
+    readonly token: string,
+    // Whose rate limit the requests count against
+    private accountId: number,
+    readonly proxyUrl: string | null = null,
+    private config: TwitchTransportConfig = transportConfigFromEnv(),
+    private limiter: RateLimiter = twitchRateLimiter
+  ) {}
+
+  async gql<T>(
+    operation: GqlOperation,
+    variables: Record<string, unknown> = {},
+    priority: RequestPriority = "lookup"
+  ): Promise<T> {
+    const body = await this.request<{ data?: T, errors?: { message: string }[] }>("gql", priority, this.config.gqlUrl, {
+      method: "POST",
+      headers: {
+        "Client-Id": this.config.clientId,
+        "Authorization": `OAuth ${this.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        operationName: operation.operationName,
+        variables,
+        extensions: {
+          persistedQuery: { version: 1, sha256Hash: operation.sha256Hash },
+        },
+      }),
+    });
+
+    if (body.errors?.length) {
+      throw new TwitchApiError(`${operation.operationName}: ${body.errors.map((e) => e.message).join(", ")}`);
+    }
+    if (!body.data) {
+      throw new TwitchApiError(`${operation.operationName}: empty response`);
+    }
+    return body.data;
+  }
+
+  async helix<T>(path: string, params: Record<string, string> = {}): Promise<T> {
+    const url = new URL(`${this.config.helixUrl}${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+
+    return this.request<T>("helix", "lookup", url.toString(), {
+      headers: {
+        "Client-Id": this.config.clientId,
+        "Authorization": `Bearer ${this.token}`,
+      },
+    });
+  }
+
+  // Fetches a twitch.tv page (or an absolute asset URL) as text
+  async page(pathOrUrl: string): Promise<string> {
+    const url = /^https?:\/\//.test(pathOrUrl) ? pathOrUrl : `${this.config.webUrl}${pathOrUrl}`;
+    const res = await this.limited("web", "lookup", () => this.fetch(url));
+    if (!res.ok) {
+      throw new TwitchApiError(`Fetching ${url} failed with ${res.status}`, res.status);
+    }
+    return res.text();
+  }
+
+  /**
+   * Posts events to Twitch's spade analytics endpoint, which is how watch
+   * time is reported. Returns whether the events were accepted.
+   */
+  async spade(spadeUrl: string, events: unknown[]): Promise<boolean> {
+    const data = Buffer.from(JSON.stringify(events)).toString("base64");
+    const res = await this.limited("spade", "watch", () => this.fetch(spadeUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ data }).toString(),
+    }));
+    return res.ok;
+  }
+
+  private fetch(url: string, init?: RequestInit): Promise<Response> {
+    return this.proxyUrl ? proxiedFetch(this.proxyUrl, url, init) : fetch(url, init);
+  }
+
+  private limited<T>(endpoint: EndpointClass, priority: RequestPriority, send: () => Promise<T>): Promise<T> {
+    return this.limiter.schedule({ accountId: this.accountId, endpoint, priority }, send);
+  }
+
+  private async request<T>(endpoint: EndpointClass, priority: RequestPriority, url: string, init: RequestInit): Promise<T> {
+    const res = await this.limited(endpoint, priority, () => this.fetch(url, init));
+
+    if (res.status === 401) {
+      throw new TwitchAuthError("Twitch rejected the account's credentials");
+    }
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new TwitchApiError(`Twitch responded with ${res.status}${text ? `: ${text}` : ""}`, res.status);
+    }
+
+    return res.json() as Promise<T>;
+  }
+}
@@ -0,0 +1,107 @@
+import type { PredictionSettings } from "./schema";
+
+// Choosing an outcome and working out payouts for channel-points
+// predictions. Twitch pays winners the whole pool in proportion to their
+// stake, so an outcome's payout per point is the pool over its own total.
+
+export interface PredictionOutcome {
+  id: string;
+  title: string;
+  totalPoints: number;
+  totalUsers: number;
+}
+
+export interface PredictionPool {
+  outcomes: PredictionOutcome[];
+}
+
+// Twitch rejects smaller bets
+export const MIN_PREDICTION_POINTS = 10;
+
+function totalPoints(prediction: PredictionPool): number {
+  return prediction.outcomes.reduce((sum, outcome) => sum + outcome.totalPoints, 0);
+}
+
+/**
+ * Determines the best prediction outcome based on a strategy
+ */
+export function determineBestPredictionOutcome(
+  prediction: PredictionPool,
+  strategy: PredictionSettings["strategy"],
+  favorableOddsOnly: boolean = false
+): string | null {
+  if (!prediction || !prediction.outcomes || prediction.outcomes.length === 0) {
+    return null;
+  }
+
+  switch (strategy) {
+    case 'random': {
+      // Choose randomly
+      const randomIndex = Math.floor(Math.random() * prediction.outcomes.length);
+      return prediction.outcomes[randomIndex].id;
+    }
+
+    case 'majority': {
+      // Follow the crowd (most users)
+      const mostUsers = prediction.outcomes.reduce((prev, current) =>
+        (prev.totalUsers > current.totalUsers) ? prev : current);
+      return mostUsers.id;
+    }
+
+    case 'percentage': {
+      // Choose based on odds
+      const total = totalPoints(prediction);
+
+      // Calculate odds for each outcome
+      const oddsWithId = prediction.outcomes.map(outcome => ({
+        id: outcome.id,
+        odds: total > 0 ? outcome.totalPoints / total : 0
+      }));
+
+      // Sort by odds (ascending - lower odds = higher payout)
+      oddsWithId.sort((a, b) => a.odds - b.odds);
+
+      // If we only want favorable odds and the best odds are still >50%, skip this prediction
+      if (favorableOddsOnly && oddsWithId[0].odds > 0.5) {
+        return null;
+      }
+
+      return oddsWithId[0].id;
+    }
+
+    case 'custom': {
+      // Pick the outcome with the highest potential return (lowest odds)
+      const bestReturn = prediction.outcomes.reduce((prev, current) =>
+        (prev.totalPoints < current.totalPoints) ? prev : current);
+      return bestReturn.id;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Calculate potential winnings from a prediction: the stake plus its share
+ * of the other outcomes' points once the bet is added
+ */
+export function calculatePotentialWinnings(
+  prediction: PredictionPool,
+  outcomeId: string,
+  betAmount: number
+): number {
+  const outcome = prediction.outcomes.find(o => o.id === outcomeId);
+  if (!outcome) return 0;
+
+  const otherPoints = totalPoints(prediction) - outcome.totalPoints;
+  const potentialReturn = (otherPoints / (outcome.totalPoints + betAmount)) * betAmount;
+
+  return Math.floor(potentialReturn + betAmount);
+}
+
+// Points a winning bet pays out, stake included, from the final totals
+export function resolvedPayout(prediction: PredictionPool, outcomeId: string, betAmount: number): number {
+  const outcome = prediction.outcomes.find(o => o.id === outcomeId);
+  if (!outcome || outcome.totalPoints <= 0) return betAmount;
+  return Math.floor(betAmount * totalPoints(prediction) / outcome.totalPoints);
+}
@@ -0,0 +1,67 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { FarmSchedule } from "./schema";
+import { formatInTimeZone, isWithinSchedule, nextWindowStart } from "./schedule";
+
+const at = (iso: string) => new Date(iso);
+
+describe("schedule windows", () => {
+  // Friday 22:00 to Saturday 02:00 in Berlin, which is UTC+2 in mid-October
+  const lateFriday: FarmSchedule = {
+    timezone: "Europe/Berlin",
+    windows: [{ days: [5], start: "22:00", end: "02:00" }],
+  };
+
+  test("a window ending at or before its start runs past midnight", () => {
+    assert.equal(isWithinSchedule(lateFriday, at("2026-10-16T19:59:00Z")), false); // Fri 21:59
+    assert.equal(isWithinSchedule(lateFriday, at("2026-10-16T20:00:00Z")), true); // Fri 22:00
+    assert.equal(isWithinSchedule(lateFriday, at("2026-10-16T23:30:00Z")), true); // Sat 01:30
+    assert.equal(isWithinSchedule(lateFriday, at("2026-10-17T00:00:00Z")), false); // Sat 02:00
+    // The window belongs to Friday, not to the day it ends on
+    assert.equal(isWithinSchedule(lateFriday, at("2026-10-15T23:30:00Z")), false); // Fri 01:30
+  });
+
+  test("the next window after one ends is a week later", () => {
+    assert.deepEqual(nextWindowStart(lateFriday, at("2026-10-17T01:00:00Z")), at("2026-10-23T20:00:00Z"));
+    assert.equal(formatInTimeZone(at("2026-10-23T20:00:00Z"), lateFriday.timezone), "Fri 22:00 (Europe/Berlin)");
+  });
+
+  test("a Saturday window runs into Sunday across the end of the week", () => {
+    const saturdayNight: FarmSchedule = { timezone: "UTC", windows: [{ days: [6], start: "23:00", end: "01:00" }] };
+    assert.equal(isWithinSchedule(saturdayNight, at("2026-10-17T22:59:00Z")), false); // Sat 22:59
+    assert.equal(isWithinSchedule(saturdayNight, at("2026-10-17T23:30:00Z")), true); // Sat 23:30
+    assert.equal(isWithinSchedule(saturdayNight, at("2026-10-18T00:30:00Z")), true); // Sun 00:30
+    assert.equal(isWithinSchedule(saturdayNight, at("2026-10-18T01:00:00Z")), false); // Sun 01:00
+    assert.deepEqual(nextWindowStart(saturdayNight, at("2026-10-18T00:30:00Z")), at("2026-10-24T23:00:00Z"));
+  });
+
+  test("the next window may start in the next week", () => {
+    const sundayMorning: FarmSchedule = { timezone: "UTC", windows: [{ days: [0], start: "01:00", end: "03:00" }] };
+    assert.deepEqual(nextWindowStart(sundayMorning, at("2026-10-17T23:30:00Z")), at("2026-10-18T01:00:00Z"));
+  });
+
+  describe("across daylight saving changes", () => {
+    const sundayMorning: FarmSchedule = {
+      timezone: "Europe/Berlin",
+      windows: [{ days: [0], start: "09:00", end: "10:00" }],
+    };
+
+    test("follows the wall clock when the clocks go forward", () => {
+      // Berlin moves from UTC+1 to UTC+2 early on Sunday 29 March 2026
+      assert.deepEqual(nextWindowStart(sundayMorning, at("2026-03-28T11:00:00Z")), at("2026-03-29T07:00:00Z"));
+      assert.equal(isWithinSchedule(sundayMorning, at("2026-03-29T07:30:00Z")), true); // 09:30 CEST
+      assert.equal(isWithinSchedule(sundayMorning, at("2026-03-29T08:30:00Z")), false); // 10:30 CEST
+    });
+
+    test("follows the wall clock when the clocks go back", () => {
+      // Berlin moves from UTC+2 to UTC+1 early on Sunday 25 October 2026
+      assert.deepEqual(nextWindowStart(sundayMorning, at("2026-10-24T10:00:00Z")), at("2026-10-25T08:00:00Z"));
+      assert.equal(isWithinSchedule(sundayMorning, at("2026-10-25T07:30:00Z")), false); // 08:30 CET
+      assert.equal(isWithinSchedule(sundayMorning, at("2026-10-25T08:30:00Z")), true); // 09:30 CET
+    });
+  });
+
+  test("farms without a schedule always run", () => {
+    assert.equal(isWithinSchedule(null, at("2026-10-17T03:00:00Z")), true);
+  });
+});
@@ -0,0 +1,74 @@
+import type { FarmSchedule } from "./schema";
+
+// Schedule windows are compared as minutes since Sunday 00:00 in the
+// schedule's timezone, so a window crossing midnight or the end of the week
+// is a single span
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function weekMinute(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? "";
+  return WEEKDAYS.indexOf(part("weekday")) * MINUTES_PER_DAY + Number(part("hour")) * 60 + Number(part("minute"));
+}
+
+// Every window occurrence as [start, end); ends may run past the week
+function spans(schedule: FarmSchedule): [number, number][] {
+  return schedule.windows.flatMap(window => {
+    const start = minutesOf(window.start);
+    let end = minutesOf(window.end);
+    if (end <= start) end += MINUTES_PER_DAY;
+    return window.days.map((day): [number, number] => [day * MINUTES_PER_DAY + start, day * MINUTES_PER_DAY + end]);
+  });
+}
+
+// Whether a farm may run at the given time; no schedule means always
+export function isWithinSchedule(schedule: FarmSchedule | null | undefined, date = new Date()): boolean {
+  if (!schedule) return true;
+  const now = weekMinute(date, schedule.timezone);
+  return spans(schedule).some(([start, end]) =>
+    (now >= start && now < end) || (now + MINUTES_PER_WEEK >= start && now + MINUTES_PER_WEEK < end)
+  );
+}
+
+// Start of the first window opening after the given time
+export function nextWindowStart(schedule: FarmSchedule, date = new Date()): Date | null {
+  const now = weekMinute(date, schedule.timezone);
+  const minute = Math.floor(date.getTime() / 60_000) * 60_000;
+  const mod = (value: number) => ((value % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+
+  let next: Date | null = null;
+  for (const [start] of spans(schedule)) {
+    let candidate = new Date(minute + (mod(start - now) || MINUTES_PER_WEEK) * 60_000);
+    // A daylight saving change in between shifts the wall clock; move back onto it
+    const drift = mod(start - weekMinute(candidate, schedule.timezone) + MINUTES_PER_WEEK / 2) - MINUTES_PER_WEEK / 2;
+    candidate = new Date(candidate.getTime() + drift * 60_000);
+    if (!next || candidate < next) next = candidate;
+  }
+  return next;
+}
+
+// e.g. "Mon 18:00 (Europe/Berlin)"
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const time = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(date);
+  return `${time} (${timeZone})`;
+}
@@ -0,0 +1,107 @@
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { defaultWatchPriority, type FarmFeatures, type FarmSchedule, type FarmTargetType, type PredictionSettings, type WatchPriorityCriterion } from "./schema";
+
+// SQLite mirror of the tables in ./schema.ts. Column names and row shapes
+// must stay identical so every storage backend returns the same types.
+
+// User accounts
+export const accounts = sqliteTable("accounts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id"),
+  name: text("name").notNull(),
+  username: text("username").notNull(),
+  authType: text("auth_type").notNull(), // "cookie" or "oauth"
+  authCredentials: text("auth_credentials").notNull(),
+  remember: integer("remember", { mode: "boolean" }).default(false),
+  active: integer("active", { mode: "boolean" }).default(true),
+  watchPriority: text("watch_priority", { mode: "json" }).$type<WatchPriorityCriterion[]>().notNull().default(defaultWatchPriority),
+  authError: text("auth_error"), // set when repeated auth failures paused the account; cleared with new credentials
+  proxy: text("proxy"), // all Twitch traffic of the account goes through it when set
+});
+
+// Channel farms
+export const farms = sqliteTable("farms", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id"),
+  accountId: integer("account_id").notNull(),
+  targetType: text("target_type").$type<FarmTargetType>().notNull().default("channel"),
+  gameName: text("game_name"), // game farms only; channelName is then the stream picked for it
+  channelName: text("channel_name").notNull(),
+  channelId: text("channel_id"), // Twitch user id; survives the streamer renaming their channel
+  channelDisplayName: text("channel_display_name"),
+  profileImage: text("profile_image"),
+  status: text("status").default("active"), // active, warning, error, offline, scheduled
+  uptime: integer("uptime").default(0), // in seconds
+  pointsClaimed: integer("points_claimed").default(0),
+  watchTime: integer("watch_time").default(0), // in seconds
+  enabled: integer("enabled", { mode: "boolean" }).default(true),
+  priority: integer("priority").notNull().default(0), // lower is watched first
+  features: text("features", { mode: "json" }).$type<FarmFeatures>().notNull(),
+  predictionSettings: text("prediction_settings", { mode: "json" }).$type<PredictionSettings>().notNull(),
+  schedule: text("schedule", { mode: "json" }).$type<FarmSchedule>(), // null runs around the clock
+  lastActivity: integer("last_activity", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+});
+
+// Activity logs
+export const logs = sqliteTable("logs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  timestamp: integer("timestamp", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+  userId: integer("user_id"),
+  accountId: integer("account_id").notNull(),
+  accountName: text("account_name").notNull(),
+  channelId: text("channel_id"),
+  channelName: text("channel_name").notNull(),
+  event: text("event").notNull(),
+  status: text("status").notNull(), // success, warning, error, info
+  details: text("details"),
+});
+
+// Statistics
+export const stats = sqliteTable("stats", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  date: integer("date", { mode: "timestamp_ms" }).notNull().unique().$defaultFn(() => new Date()),
+  activeFarms: integer("active_farms").default(0),
+  pointsClaimed: integer("points_claimed").default(0),
+  watchHours: integer("watch_hours").default(0),
+  predictionRate: integer("prediction_rate").default(0),
+  // /api/stats derives the prediction rate from these (server/stats.ts)
+  predictionsResolved: integer("predictions_resolved").default(0),
+  predictionsWon: integer("predictions_won").default(0),
+});
+
+// Notification sinks (user-registered Discord webhooks)
+export const notificationSinks = sqliteTable("notification_sinks", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id"),
+  name: text("name").notNull(),
+  type: text("type").notNull().default("discord"),
+  webhookUrl: text("webhook_url").notNull(),
+  statuses: text("statuses", { mode: "json" }).$type<string[]>().notNull(), // log statuses to forward
+  events: text("events", { mode: "json" }).$type<string[]>().notNull(), // event keywords to match, empty for all
+  enabled: integer("enabled", { mode: "boolean" }).default(true),
+  lastDeliveryAt: integer("last_delivery_at", { mode: "timestamp_ms" }),
+  lastDeliveryStatus: text("last_delivery_status"), // delivered, failed
+  lastError: text("last_error"),
+});
+
+// Drops the farm has claimed, one row per drop instance
+export const claimedDrops = sqliteTable("claimed_drops", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id"),
+  accountId: integer("account_id").notNull(),
+  campaignId: text("campaign_id").notNull(),
+  campaignName: text("campaign_name").notNull(),
+  gameName: text("game_name"),
+  dropId: text("drop_id").notNull(),
+  dropName: text("drop_name").notNull(),
+  dropInstanceId: text("drop_instance_id").notNull().unique(),
+  claimedAt: integer("claimed_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+});
+
+// User model schema for authentication
+export const users = sqliteTable("users", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  role: text("role").notNull().default("user"), // user, admin
+});